@@ -11,3 +11,84 @@ export const PORT = process.env.PORT;
 export const MONGO_URI = process.env.MONGO_URI;
 export const JWT_SECRET = process.env.JWT_SECRET;
 
+// Sign-in sessions: access tokens live ACCESS_TOKEN_EXPIRY and are renewed with a rotating refresh token,
+// a session not refreshed for REFRESH_TOKEN_EXPIRY_DAYS ends
+export const ACCESS_TOKEN_EXPIRY = process.env.ACCESS_TOKEN_EXPIRY || '15m';
+export const REFRESH_TOKEN_EXPIRY_DAYS = Number(process.env.REFRESH_TOKEN_EXPIRY_DAYS) || 30;
+export const SESSION_CLEANUP_INTERVAL_MINUTES = Number(process.env.SESSION_CLEANUP_INTERVAL_MINUTES) || 60;
+
+// Two-factor authentication: issuer shown in authenticator apps, time allowed to enter the code after the password
+export const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'Portfolio';
+export const TWO_FACTOR_CHALLENGE_EXPIRY = process.env.TWO_FACTOR_CHALLENGE_EXPIRY || '5m';
+
+// Add-files drop codes
+export const ADD_FILES_DEFAULT_EXPIRY_HOURS = Number(process.env.ADD_FILES_DEFAULT_EXPIRY_HOURS) || 24 * 7;
+export const ADD_FILES_DEFAULT_MAX_SIZE = Number(process.env.ADD_FILES_DEFAULT_MAX_SIZE) || 6 * 1024 * 1024 * 1024; // 6 GB
+export const ADD_FILES_DEFAULT_MAX_FILES = Number(process.env.ADD_FILES_DEFAULT_MAX_FILES) || 100;
+export const ADD_FILES_CLEANUP_INTERVAL_MINUTES = Number(process.env.ADD_FILES_CLEANUP_INTERVAL_MINUTES) || 60;
+
+// Storage downloads: only files up to DOWNLOAD_CACHE_MAX_FILE_SIZE are kept in memory
+export const DOWNLOAD_CACHE_MAX_SIZE = Number(process.env.DOWNLOAD_CACHE_MAX_SIZE) || 100 * 1024 * 1024; // 100 MB
+export const DOWNLOAD_CACHE_MAX_FILE_SIZE = Number(process.env.DOWNLOAD_CACHE_MAX_FILE_SIZE) || 2 * 1024 * 1024; // 2 MB
+
+// Storage quotas per role in bytes (0 = unlimited), can be overridden per user
+export const STORAGE_QUOTAS: Record<string, number> = {
+    admin: Number(process.env.STORAGE_QUOTA_ADMIN || 0),
+    user: Number(process.env.STORAGE_QUOTA_USER || 20 * 1024 * 1024 * 1024), // 20 GB
+};
+
+// Storage folder permissions per role where no folder ACL applies (none, read, write or manage).
+// Admins always have manage, guests can't use the storage routes at all.
+export const STORAGE_DEFAULT_PERMISSIONS: Record<string, string> = {
+    user: process.env.STORAGE_DEFAULT_PERMISSION_USER || 'write',
+};
+
+// Version retention: keep the last N versions of a file, plus any version newer than D days (0 = no limit)
+export const VERSION_RETENTION_KEEP_LAST = Number(process.env.VERSION_RETENTION_KEEP_LAST || 10);
+export const VERSION_RETENTION_MAX_AGE_DAYS = Number(process.env.VERSION_RETENTION_MAX_AGE_DAYS || 30);
+export const VERSION_PRUNE_INTERVAL_MINUTES = Number(process.env.VERSION_PRUNE_INTERVAL_MINUTES) || 24 * 60;
+
+// Trash: items older than TRASH_RETENTION_DAYS are purged (0 = keep forever)
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS || 30);
+export const TRASH_PURGE_INTERVAL_MINUTES = Number(process.env.TRASH_PURGE_INTERVAL_MINUTES) || 60;
+
+// Deduplicated storage: file contents are kept once in storage/.blobs, keyed by SHA-256
+export const STORAGE_DEDUP_ENABLED = process.env.STORAGE_DEDUP === 'true';
+
+// Storage zip downloads: zlib level used when the caller does not pick one (0 = store only, 9 = smallest)
+export const ZIP_DEFAULT_COMPRESSION_LEVEL = Number(process.env.ZIP_DEFAULT_COMPRESSION_LEVEL || 6);
+
+// Resumable (tus) uploads: unfinished uploads expire after TUS_UPLOAD_EXPIRY_HOURS without progress,
+// TUS_MAX_SIZE caps a single upload in bytes (0 = no limit)
+export const TUS_UPLOAD_EXPIRY_HOURS = Number(process.env.TUS_UPLOAD_EXPIRY_HOURS) || 24;
+export const TUS_MAX_SIZE = Number(process.env.TUS_MAX_SIZE || 0);
+export const TUS_CLEANUP_INTERVAL_MINUTES = Number(process.env.TUS_CLEANUP_INTERVAL_MINUTES) || 60;
+
+// Chunked uploads (and storage/.temp chunk folders) with no new chunk for UPLOAD_IDLE_TIMEOUT_HOURS are removed
+export const UPLOAD_IDLE_TIMEOUT_HOURS = Number(process.env.UPLOAD_IDLE_TIMEOUT_HOURS) || 24;
+export const UPLOAD_CLEANUP_INTERVAL_MINUTES = Number(process.env.UPLOAD_CLEANUP_INTERVAL_MINUTES) || 60;
+// Largest single chunk in bytes, and how many uploads one share link accepts chunks for at the same time
+export const CHUNK_MAX_SIZE = Number(process.env.CHUNK_MAX_SIZE) || 100 * 1024 * 1024; // 100 MB
+export const SHARE_UPLOAD_MAX_PENDING = Number(process.env.SHARE_UPLOAD_MAX_PENDING) || 10;
+
+// Chunk assembly jobs: a finished job can still be polled for ASSEMBLY_JOB_RETENTION_MINUTES
+export const ASSEMBLY_JOB_RETENTION_MINUTES = Number(process.env.ASSEMBLY_JOB_RETENTION_MINUTES) || 60;
+
+// Share links: lifetime of the token issued when unlocking a password-protected link
+export const SHARE_UNLOCK_TOKEN_EXPIRY = process.env.SHARE_UNLOCK_TOKEN_EXPIRY || '15m';
+// Share link analytics: recorded hits are dropped after SHARE_ACCESS_RETENTION_DAYS (0 = keep forever)
+export const SHARE_ACCESS_RETENTION_DAYS = Number(process.env.SHARE_ACCESS_RETENTION_DAYS || 90);
+
+// Storage backend per area: "local" (folder next to the sources) or "s3" (S3-compatible bucket, e.g. MinIO)
+export const STORAGE_DRIVERS: Record<string, string> = {
+    storage: process.env.STORAGE_DRIVER || 'local',
+    share: process.env.SHARE_DRIVER || 'local',
+    get_files: process.env.GET_FILES_DRIVER || 'local',
+    images: process.env.IMAGES_DRIVER || 'local',
+};
+export const S3_ENDPOINT = process.env.S3_ENDPOINT;           // e.g. http://localhost:9000 for MinIO
+export const S3_REGION = process.env.S3_REGION || 'us-east-1';
+export const S3_BUCKET = process.env.S3_BUCKET;
+export const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID;
+export const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY;
+export const S3_FORCE_PATH_STYLE = process.env.S3_FORCE_PATH_STYLE !== 'false'; // Needed by MinIO
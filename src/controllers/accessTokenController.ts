@@ -0,0 +1,87 @@
+// controllers/accessTokenController.ts
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import AccessToken, { TOKEN_SCOPES, ACCESS_TOKEN_PREFIX, hashAccessToken } from '../models/AccessToken';
+
+// POST /auth/tokens
+export const createAccessToken = async (req: Request, res: Response) => {
+    try {
+        const { name, scopes, expiresInDays } = req.body;
+
+        if (typeof name !== 'string' || !name.trim()) {
+            return res.status(400).json({ message: 'Token name is required' });
+        }
+        if (
+            !Array.isArray(scopes) ||
+            scopes.length === 0 ||
+            scopes.some((scope) => !(TOKEN_SCOPES as readonly string[]).includes(scope))
+        ) {
+            return res.status(400).json({ message: `scopes must be a list of ${TOKEN_SCOPES.join(', ')}` });
+        }
+        if (expiresInDays !== undefined && expiresInDays !== null && !(Number(expiresInDays) > 0)) {
+            return res.status(400).json({ message: 'Invalid expiry' });
+        }
+
+        const token = ACCESS_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+        const accessToken = await AccessToken.create({
+            user: req.user._id,
+            name: name.trim().slice(0, 100),
+            tokenHash: hashAccessToken(token),
+            prefix: token.slice(0, ACCESS_TOKEN_PREFIX.length + 4),
+            scopes: [...new Set(scopes)],
+            expiresAt: expiresInDays ? new Date(Date.now() + Number(expiresInDays) * 24 * 3600000) : undefined,
+        });
+
+        // Only returned here, it can't be looked up later
+        res.status(201).json({
+            id: accessToken._id,
+            name: accessToken.name,
+            scopes: accessToken.scopes,
+            expiresAt: accessToken.expiresAt,
+            token,
+        });
+    } catch (error) {
+        console.error('Error creating access token:', error);
+        res.status(500).json({ message: 'Error creating access token' });
+    }
+};
+
+// GET /auth/tokens
+export const listAccessTokens = async (req: Request, res: Response) => {
+    try {
+        const tokens = await AccessToken.find({ user: req.user._id }).sort({ createdAt: -1 });
+        res.json(tokens.map((accessToken) => ({
+            id: accessToken._id,
+            name: accessToken.name,
+            prefix: accessToken.prefix,
+            scopes: accessToken.scopes,
+            createdAt: accessToken.createdAt,
+            expiresAt: accessToken.expiresAt,
+            lastUsedAt: accessToken.lastUsedAt,
+            expired: !!accessToken.expiresAt && accessToken.expiresAt < new Date(),
+        })));
+    } catch (error) {
+        console.error('Error listing access tokens:', error);
+        res.status(500).json({ message: 'Error listing access tokens' });
+    }
+};
+
+// DELETE /auth/tokens/:id
+export const revokeAccessToken = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        if (!mongoose.isValidObjectId(id)) {
+            return res.status(404).json({ message: 'Token not found' });
+        }
+
+        const { deletedCount } = await AccessToken.deleteOne({ _id: id, user: req.user._id });
+        if (deletedCount === 0) {
+            return res.status(404).json({ message: 'Token not found' });
+        }
+        res.json({ message: 'Token revoked' });
+    } catch (error) {
+        console.error('Error revoking access token:', error);
+        res.status(500).json({ message: 'Error revoking access token' });
+    }
+};
@@ -2,39 +2,74 @@
 import { Request, Response } from 'express';
 import fs from 'fs';
 import path from 'path';
+import mime from 'mime-types';
 import ChunkUpload from '../models/ChunkUpload';
 import ChangeLog from '../models/ChangeLog';
+import { findActiveCode, getCodeUsage, isMimeTypeAllowed, setFileChecksum } from './addFilesController';
+import { getStorageDriver } from '../drivers';
+import { safeFileName } from '../utils/safePath';
+import {
+    isValidUploadId,
+    saveChunk,
+    getMissingChunks,
+    getChunksSize,
+    assembleChunks,
+    removeChunkUpload,
+    fileHashMismatchError,
+} from '../utils/chunkStore';
+import { getRunningAssemblyJob, startAssemblyJob, toJobStatus } from '../utils/assemblyJobs';
+
+// Drop a chunk that was written by multer but won't be used
+const discardChunk = (file?: Express.Multer.File) => {
+    if (file && fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+    }
+};
 
 // POST /add-files/upload-chunk
 export const uploadChunkAddFiles = async (req: Request, res: Response) => {
     try {
-        const { chunkIndex, totalChunks, fileName, uploadId, path: code } = req.body;
+        const { chunkIndex, totalChunks, fileName, uploadId, path: code, totalSize, chunkHash, fileHash } = req.body;
         const file = req.file;
 
         if (!file) {
             return res.status(400).json({ message: 'No chunk file provided' });
         }
         if (!uploadId || !fileName || !totalChunks || !code) {
+            discardChunk(file);
             return res.status(400).json({ message: 'Missing required fields' });
         }
+        if (safeFileName(fileName) === null) {
+            discardChunk(file);
+            return res.status(400).json({ message: 'Invalid file name' });
+        }
 
-        // Optionally track in DB
-        const chunkUpload = await ChunkUpload.findOneAndUpdate(
-            { uploadId },
-            {
-                $setOnInsert: {
-                    uploadId,
-                    fileName,
-                    totalChunks,
-                    path: code,
-
-                },
-                $inc: { receivedChunks: 1 },
-            },
-            { new: true, upsert: true }
-        );
-
+        // Verify code is known, still valid and the file fits its limits
+        const { entry, status, message } = await findActiveCode(code);
+        if (!entry) {
+            discardChunk(file);
+            return res.status(status).json({ message });
+        }
+        if (!isMimeTypeAllowed(entry, mime.lookup(fileName) || 'application/octet-stream')) {
+            discardChunk(file);
+            return res.status(415).json({ message: 'File type is not allowed for this code' });
+        }
+        const usage = await getCodeUsage(code);
+        const declaredSize = Number(totalSize) || file.size;
+        if (usage.fileCount >= entry.maxFiles || usage.totalSize + declaredSize > entry.maxTotalSize) {
+            discardChunk(file);
+            return res.status(413).json({ message: 'Upload exceeds the limits of this code' });
+        }
 
+        // Track the chunk, an uploadId started for another code or by a user can't be reused
+        const { chunkUpload, status: chunkStatus, message: chunkMessage } = await saveChunk(
+            file,
+            { uploadId, chunkIndex, totalChunks, fileName, path: code, chunkHash, fileHash },
+            { path: code, createdBy: { $exists: false }, shareCode: { $exists: false } }
+        );
+        if (!chunkUpload) {
+            return res.status(chunkStatus).json({ message: chunkMessage });
+        }
 
         return res.status(200).json({ message: 'Chunk uploaded', chunkIndex });
     } catch (error) {
@@ -47,44 +82,60 @@ export const uploadChunkAddFiles = async (req: Request, res: Response) => {
 export const completeUploadAddFiles = async (req: Request, res: Response) => {
     try {
         const { uploadId } = req.body;
-        if (!uploadId) {
+        if (!isValidUploadId(uploadId)) {
             return res.status(400).json({ message: 'Missing uploadId' });
         }
 
         // Find the record
-        const chunkUpload = await ChunkUpload.findOne({ uploadId });
+        const chunkUpload = await ChunkUpload.findOne({ uploadId, createdBy: { $exists: false }, shareCode: { $exists: false } });
         if (!chunkUpload) {
             return res.status(404).json({ message: 'No chunk upload data found' });
         }
 
-        const { fileName, totalChunks, path: code } = chunkUpload;
-        const basePath = path.join(__dirname, '../get_files');
-        const targetFolder = path.join(basePath, code);
-        if (!fs.existsSync(targetFolder)) {
-            fs.mkdirSync(targetFolder, { recursive: true });
+        // Completed twice while the first assembly is still running
+        const running = getRunningAssemblyJob(uploadId);
+        if (running) {
+            return res.status(202).json({ message: 'Assembling file', ...toJobStatus(running) });
         }
 
-        // Create the final file
-        const finalFilePath = path.join(targetFolder, fileName);
-        const writeStream = fs.createWriteStream(finalFilePath);
+        const { fileName, path: code } = chunkUpload;
+        if (safeFileName(fileName) === null) {
+            return res.status(400).json({ message: 'Invalid file name' });
+        }
 
-        // Append each chunk in order
-        for (let i = 0; i < totalChunks; i++) {
-            const chunkPath = path.join(__dirname, '../temp_chunks', `${fileName}-chunk-${i}`);
-            if (!fs.existsSync(chunkPath)) {
-                return res.status(400).json({ message: `Missing chunk at index ${i}` });
-            }
-            const data = fs.readFileSync(chunkPath);
-            writeStream.write(data);
-            fs.unlinkSync(chunkPath);
+        const { entry, status, message } = await findActiveCode(code);
+        if (!entry) {
+            return res.status(status).json({ message });
+        }
+
+        const missingChunks = getMissingChunks(chunkUpload);
+        if (missingChunks.length > 0) {
+            return res.status(400).json({ message: 'Missing chunks', missingChunks });
+        }
+
+        // Re-check the limits against the chunks actually received
+        const assembledSize = await getChunksSize(chunkUpload);
+        const usage = await getCodeUsage(code);
+        if (usage.fileCount >= entry.maxFiles || usage.totalSize + assembledSize > entry.maxTotalSize) {
+            return res.status(413).json({ message: 'Upload exceeds the limits of this code' });
         }
-        writeStream.end();
 
-        // Clean up DB
-        await ChunkUpload.deleteOne({ uploadId });
+        // Create the final file, appending each chunk in order
+        const job = startAssemblyJob({ uploadId, fileName, totalBytes: assembledSize }, async (onProgress) => {
+            const sha256 = await assembleChunks(chunkUpload, getStorageDriver('get_files'), path.join(code, fileName), onProgress);
+            if (!sha256) {
+                await removeChunkUpload(chunkUpload);
+                throw fileHashMismatchError();
+            }
+
+            // Remove the chunks and clean up DB
+            await removeChunkUpload(chunkUpload);
+            await setFileChecksum(code, fileName, sha256);
 
+            return { sha256 };
+        });
 
-        return res.status(200).json({ message: 'File assembled successfully' });
+        return res.status(202).json({ message: 'Assembling file', ...toJobStatus(job) });
     } catch (error) {
         console.error(error);
         return res.status(500).json({ message: 'Server error' });
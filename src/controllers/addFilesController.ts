@@ -1,139 +1,370 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { Transform } from 'stream';
+import { promisify } from 'util';
 import multer from 'multer';
 import archiver from 'archiver';
+import AddFilesCode, { IAddFilesCode } from '../models/AddFilesCode';
+import {
+    ADD_FILES_DEFAULT_EXPIRY_HOURS,
+    ADD_FILES_DEFAULT_MAX_SIZE,
+    ADD_FILES_DEFAULT_MAX_FILES,
+} from '../config/config';
+import { getStorageDriver, getStagingDir } from '../drivers';
+import { sendStoredFile, addToArchive } from '../utils/storedFiles';
+import { safeFileName, invalidFileNameError } from '../utils/safePath';
 
-// Basic "in-memory" storage for codes. Replace with DB in production.
-let codesMemory: { code: string; createdAt: Date }[] = [];
+const getFiles = getStorageDriver('get_files');
+
+const pipeline = promisify(require('stream').pipeline);
+
+// Files of a code, an empty list when nothing was uploaded yet
+const listCodeFiles = async (code: string) => {
+    try {
+        return (await getFiles.list(code)).filter((item) => item.isFile);
+    } catch (error: any) {
+        if (error.code === 'ENOENT') {
+            return [];
+        }
+        throw error;
+    }
+};
+
+// Look up a code and make sure it can still be used.
+// The code is also the folder name in get_files, so it must be a plain name.
+export const findActiveCode = async (
+    code: unknown
+): Promise<{ entry?: IAddFilesCode; status: number; message: string }> => {
+    if (safeFileName(code) === null) {
+        return { status: 400, message: 'Invalid code' };
+    }
+    const entry = await AddFilesCode.findOne({ code });
+    if (!entry) {
+        return { status: 404, message: 'Code not found' };
+    }
+    if (entry.expiresAt < new Date()) {
+        return { status: 410, message: 'Code has expired' };
+    }
+    return { entry, status: 200, message: 'OK' };
+};
+
+// Size and number of files already stored for a code
+export const getCodeUsage = async (code: string) => {
+    const files = await listCodeFiles(code);
+    return {
+        totalSize: files.reduce((sum, file) => sum + file.size, 0),
+        fileCount: files.length,
+    };
+};
+
+// Empty list = any type, "image/*" style wildcards are supported
+export const isMimeTypeAllowed = (entry: Pick<IAddFilesCode, 'allowedMimeTypes'>, mimeType: string) => {
+    if (!entry.allowedMimeTypes || entry.allowedMimeTypes.length === 0) {
+        return true;
+    }
+    return entry.allowedMimeTypes.some((allowed) =>
+        allowed.endsWith('/*')
+            ? mimeType.startsWith(allowed.slice(0, -1))
+            : mimeType === allowed
+    );
+};
+
+// Remember the SHA-256 of a file stored for a code, or forget it when the file was replaced without one
+export const setFileChecksum = async (code: string, fileName: string, sha256?: string) => {
+    await AddFilesCode.updateOne({ code }, { $pull: { checksums: { fileName } } });
+    if (sha256) {
+        await AddFilesCode.updateOne({ code }, { $push: { checksums: { fileName, sha256 } } });
+    }
+};
+
+// Remove expired codes together with their folders
+export const cleanupExpiredCodes = async () => {
+    try {
+        const expired = await AddFilesCode.find({ expiresAt: { $lt: new Date() } });
+        for (const entry of expired) {
+            await getFiles.remove(entry.code);
+            await AddFilesCode.deleteOne({ _id: entry._id });
+        }
+        if (expired.length > 0) {
+            console.log(`Removed ${expired.length} expired add-files code(s)`);
+        }
+    } catch (error) {
+        console.error('Error cleaning up expired codes:', error);
+    }
+};
 
 // (1) Generate code
-export const generateCode = (req: Request, res: Response) => {
-    const code = uuidv4().replace(/-/g, '').slice(0, 14); // short code
-    codesMemory.push({ code, createdAt: new Date() });
-    return res.status(200).json({ code });
+export const generateCode = async (req: Request, res: Response) => {
+    try {
+        const { label, expiresIn, maxTotalSize, maxFiles, allowedMimeTypes } = req.body;
+
+        const hours = expiresIn !== undefined ? Number(expiresIn) : ADD_FILES_DEFAULT_EXPIRY_HOURS;
+        const sizeLimit = maxTotalSize !== undefined ? Number(maxTotalSize) : ADD_FILES_DEFAULT_MAX_SIZE;
+        const filesLimit = maxFiles !== undefined ? Number(maxFiles) : ADD_FILES_DEFAULT_MAX_FILES;
+
+        if (!(hours > 0) || !(sizeLimit > 0) || !Number.isInteger(filesLimit) || filesLimit <= 0) {
+            return res.status(400).json({ message: 'Invalid expiry or limits' });
+        }
+        if (allowedMimeTypes !== undefined && (
+            !Array.isArray(allowedMimeTypes) ||
+            allowedMimeTypes.some((type: any) => typeof type !== 'string' || !type.includes('/'))
+        )) {
+            return res.status(400).json({ message: 'Invalid allowed MIME types' });
+        }
+
+        const code = uuidv4().replace(/-/g, '').slice(0, 14); // short code
+        const entry = await AddFilesCode.create({
+            code,
+            label,
+            createdBy: req.user._id,
+            expiresAt: new Date(Date.now() + hours * 3600000), // Convert hours to milliseconds
+            maxTotalSize: sizeLimit,
+            maxFiles: filesLimit,
+            allowedMimeTypes: allowedMimeTypes || [],
+        });
+
+        return res.status(200).json({ code, expiresAt: entry.expiresAt });
+    } catch (error) {
+        console.error('Error generating code:', error);
+        return res.status(500).json({ message: 'Error generating code' });
+    }
 };
 
-// (2) Get all codes
-export const getAllCodes = (req: Request, res: Response) => {
-    return res.json(codesMemory);
+// (2) Get all codes (admins see every code, users only their own)
+export const getAllCodes = async (req: Request, res: Response) => {
+    try {
+        const filter = req.user.role === 'admin' ? {} : { createdBy: req.user._id };
+        const codes = await AddFilesCode.find(filter)
+            .populate('createdBy', 'username')
+            .sort({ createdAt: -1 })
+            .lean();
+
+        const results = [];
+        for (const entry of codes) {
+            results.push({ ...entry, usage: await getCodeUsage(entry.code) });
+        }
+        return res.json(results);
+    } catch (error) {
+        console.error('Error fetching codes:', error);
+        return res.status(500).json({ message: 'Error fetching codes' });
+    }
 };
 
 // (3) Delete code + folder
-export const deleteCode = (req: Request, res: Response) => {
-    const { code } = req.params;
-    codesMemory = codesMemory.filter((c) => c.code !== code);
+export const deleteCode = async (req: Request, res: Response) => {
+    try {
+        const { code } = req.params;
+        const entry = await AddFilesCode.findOne({ code });
+        if (!entry) {
+            return res.status(404).json({ message: 'Code not found' });
+        }
+        if (req.user.role !== 'admin' && !entry.createdBy.equals(req.user._id)) {
+            return res.status(403).json({ message: 'Forbidden: Access denied' });
+        }
+
+        await AddFilesCode.deleteOne({ _id: entry._id });
 
-    // Remove the folder
-    const basePath = path.join(__dirname, '../get_files');
-    const folderPath = path.join(basePath, code);
-    if (fs.existsSync(folderPath)) {
-        fs.rmSync(folderPath, { recursive: true, force: true });
+        // Remove the folder
+        await getFiles.remove(code);
+        return res.json({ message: `Code ${code} deleted` });
+    } catch (error) {
+        console.error('Error deleting code:', error);
+        return res.status(500).json({ message: 'Error deleting code' });
     }
-    return res.json({ message: `Code ${code} deleted` });
 };
 
-// (4) Setup Multer storage
-const storage = multer.diskStorage({
-    destination: (req, file, cb) => {
-        const { code } = req.params;
-        const basePath = path.join(__dirname, '../get_files');
-        const folderPath = path.join(basePath, code);
-        fs.mkdirSync(folderPath, { recursive: true });
-        cb(null, folderPath);
-    },
-    filename: (req, file, cb) => {
-        cb(null, file.originalname);
-    },
-});
-const upload = multer({ storage,
-    limits: {
-        fileSize: 6 * 1024 * 1024 * 1024, // 6 GB in bytes
-    }, });
+// (4) Setup Multer storage, files are staged and then handed to the get_files driver.
+// Multer's fileSize limit applies to each file on its own, so the files of a request are also
+// counted together and the upload stops as soon as they pass what is left of the code's budget.
+const createStagingStorage = (maxBytes: number): multer.StorageEngine => {
+    let received = 0;
+    return {
+        _handleFile(req, file, cb) {
+            const destination = getStagingDir('get_files');
+            const filename = uuidv4();
+            const filePath = path.join(destination, filename);
+            let size = 0;
+
+            const counter = new Transform({
+                transform(chunk, encoding, done) {
+                    size += chunk.length;
+                    received += chunk.length;
+                    if (received > maxBytes) {
+                        done(Object.assign(new Error('Upload exceeds the limits of this code'), { status: 413 }));
+                    } else {
+                        done(null, chunk);
+                    }
+                },
+            });
+            pipeline(file.stream, counter, fs.createWriteStream(filePath))
+                .then(() => cb(null, { destination, filename, path: filePath, size }))
+                .catch((error: any) => fs.rm(filePath, { force: true }, () => cb(error)));
+        },
+        _removeFile(req, file, cb) {
+            fs.rm(file.path, { force: true }, cb);
+        },
+    };
+};
 
 // (5) Upload multiple files
 export const uploadFiles = [
-    (req: Request, res: Response, next: Function) => {
-        // 1) Verify code is known
-        const { code } = req.params;
-        const codeExists = codesMemory.some((entry) => entry.code === code);
-        if (!codeExists) {
-            return res.status(404).json({ message: 'Code not found' });
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            // 1) Verify code is known and still valid
+            const { entry, status, message } = await findActiveCode(req.params.code);
+            if (!entry) {
+                return res.status(status).json({ message });
+            }
+
+            // 2) Reject uploads that can't fit before anything is written
+            const usage = await getCodeUsage(entry.code);
+            const remainingSize = entry.maxTotalSize - usage.totalSize;
+            const remainingFiles = entry.maxFiles - usage.fileCount;
+            const contentLength = parseInt(req.headers['content-length'] || '0', 10);
+            if (remainingFiles <= 0 || remainingSize <= 0 || contentLength > remainingSize) {
+                return res.status(413).json({ message: 'Upload exceeds the limits of this code' });
+            }
+
+            // 3) Limits depend on the code, so the multer instance is built per request
+            const upload = multer({
+                storage: createStagingStorage(remainingSize),
+                limits: {
+                    fileSize: remainingSize,
+                    files: remainingFiles,
+                },
+                fileFilter: (req, file, cb) => {
+                    if (safeFileName(file.originalname) === null) {
+                        cb(invalidFileNameError(file.originalname));
+                    } else if (isMimeTypeAllowed(entry, file.mimetype)) {
+                        cb(null, true);
+                    } else {
+                        cb(Object.assign(new Error(`File type ${file.mimetype} is not allowed`), { status: 415 }));
+                    }
+                },
+            });
+
+            upload.array('files', 20)(req, res, (err: any) => {
+                if (err instanceof multer.MulterError) {
+                    const tooLarge = err.code === 'LIMIT_FILE_SIZE' || err.code === 'LIMIT_FILE_COUNT';
+                    return res.status(tooLarge ? 413 : 400).json({ message: err.message });
+                }
+                if (err) {
+                    return res.status(err.status || 500).json({ message: err.message || 'Error uploading files' });
+                }
+                next();
+            });
+        } catch (error) {
+            console.error('Error checking upload limits:', error);
+            return res.status(500).json({ message: 'Error uploading files' });
         }
-        next();
     },
-    upload.array('files', 20),
-    (req: Request, res: Response) => {
-        // 2) If code is valid, proceed with upload
-        return res.status(201).json({ message: 'Files uploaded successfully' });
+    async (req: Request, res: Response) => {
+        const files = (req.files as Express.Multer.File[]) || [];
+        try {
+            for (const file of files) {
+                await getFiles.putFile(file.path, path.join(req.params.code, file.originalname));
+                await setFileChecksum(req.params.code, file.originalname);
+            }
+            return res.status(201).json({ message: 'Files uploaded successfully' });
+        } catch (error) {
+            console.error('Error storing uploaded files:', error);
+            return res.status(500).json({ message: 'Error uploading files' });
+        } finally {
+            // Remove whatever was not moved into place
+            for (const file of files) {
+                fs.rmSync(file.path, { force: true });
+            }
+        }
     },
 ];
 
 
 // (6) List all files in a folder
-export const listFiles = (req: Request, res: Response) => {
+export const listFiles = async (req: Request, res: Response) => {
     const { code } = req.params;
 
-    // 1) Verify code is known
-    const codeExists = codesMemory.some((entry) => entry.code === code);
-    if (!codeExists) {
-        return res.status(404).json({ message: 'Code not found' });
-    }
-
-    const basePath = path.join(__dirname, '../get_files');
-    const folderPath = path.join(basePath, code);
+    try {
+        // 1) Verify code is known and still valid
+        const { entry, status, message } = await findActiveCode(code);
+        if (!entry) {
+            return res.status(status).json({ message });
+        }
 
-    if (!fs.existsSync(folderPath)) {
         // Folder doesn't exist => no files
-        return res.json([]);
-    }
+        const files = await listCodeFiles(code);
 
-    const fileNames = fs.readdirSync(folderPath, { withFileTypes: true })
-        .filter((item) => item.isFile())
-        .map((item) => item.name);
-
-    res.json(fileNames);
+        res.json(files.map((item) => item.name));
+    } catch (error) {
+        console.error('Error listing files:', error);
+        return res.status(500).json({ message: 'Error listing files' });
+    }
 };
 
 // (7) Download a single file
-export const downloadFile = (req: Request, res: Response) => {
+export const downloadFile = async (req: Request, res: Response) => {
     const { code, fileName } = req.params;
-    const basePath = path.join(__dirname, '../get_files');
-    const filePath = path.join(basePath, code, fileName);
 
-    if (!fs.existsSync(filePath)) {
-        return res.status(404).json({ message: 'File not found' });
-    }
+    try {
+        const { entry, status, message } = await findActiveCode(code);
+        if (!entry) {
+            return res.status(status).json({ message });
+        }
+        if (safeFileName(fileName) === null) {
+            return res.status(400).json({ message: 'Invalid file name' });
+        }
 
-    res.download(filePath, fileName, (err) => {
-        if (err) {
-            console.error('Error downloading file:', err);
+        const sha256 = entry.checksums.find((checksum) => checksum.fileName === fileName)?.sha256;
+        if (!(await sendStoredFile(res, getFiles, path.join(code, fileName), { download: true, sha256 }))) {
+            return res.status(404).json({ message: 'File not found' });
+        }
+    } catch (err) {
+        console.error('Error downloading file:', err);
+        if (!res.headersSent) {
             return res.status(500).send('Error downloading file');
         }
-    });
+    }
 };
 
 // (8) Download all files in a folder (ZIP)
-export const downloadAllFiles = (req: Request, res: Response) => {
+export const downloadAllFiles = async (req: Request, res: Response) => {
     const { code } = req.params;
-    const basePath = path.join(__dirname, '../get_files');
-    const folderPath = path.join(basePath, code);
 
-    if (!fs.existsSync(folderPath)) {
-        return res.status(404).json({ message: 'Folder not found' });
-    }
+    try {
+        const { entry, status, message } = await findActiveCode(code);
+        if (!entry) {
+            return res.status(status).json({ message });
+        }
+
+        const folder = await getFiles.stat(code);
 
-    res.setHeader('Content-Type', 'application/zip');
-    res.setHeader('Content-Disposition', `attachment; filename=${code}.zip`);
+        if (!folder || !folder.isDirectory) {
+            return res.status(404).json({ message: 'Folder not found' });
+        }
+
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename=${code}.zip`);
 
-    const archive = archiver('zip', { zlib: { level: 9 } });
-    archive.on('error', (err) => {
-        console.error('Error creating zip archive:', err);
-        res.status(500).send('Error creating zip file');
-    });
+        const archive = archiver('zip', { zlib: { level: 9 } });
+        archive.on('error', (err) => {
+            console.error('Error creating zip archive:', err);
+            res.status(500).send('Error creating zip file');
+        });
 
-    archive.pipe(res);
-    archive.directory(folderPath, false);
-    archive.finalize();
+        archive.pipe(res);
+        try {
+            for (const item of await getFiles.list(code)) {
+                await addToArchive(archive, getFiles, item.path, item.name);
+            }
+            await archive.finalize();
+        } catch (err) {
+            console.error('Error creating zip archive:', err);
+            archive.abort();
+            res.end();
+        }
+    } catch (err) {
+        console.error('Error downloading files:', err);
+        res.status(500).send('Error downloading files');
+    }
 };
@@ -1,10 +1,61 @@
 // controllers/authController.ts
 
 import { Request, Response } from 'express';
+import crypto from 'crypto';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
-import User from '../models/User';
-import { JWT_SECRET } from '../config/config';
+import mongoose from 'mongoose';
+import User, { IUser } from '../models/User';
+import Session, { ISession } from '../models/Session';
+import { JWT_SECRET, ACCESS_TOKEN_EXPIRY, REFRESH_TOKEN_EXPIRY_DAYS } from '../config/config';
+import {
+    signTwoFactorChallenge,
+    verifyTwoFactorChallenge,
+    isTwoFactorRequired,
+    checkSecondFactor,
+} from './twoFactorController';
+
+// Refresh tokens are random strings, only their SHA-256 is stored
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+const createRefreshToken = () => crypto.randomBytes(48).toString('base64url');
+const refreshExpiry = () => new Date(Date.now() + REFRESH_TOKEN_EXPIRY_DAYS * 24 * 3600000);
+
+// Short-lived access token bound to a session, authenticateToken refuses it once the session is revoked
+const signAccessToken = (user: IUser, session: ISession) =>
+    jwt.sign({ userId: user._id, sessionId: session._id }, JWT_SECRET as string, {
+        expiresIn: ACCESS_TOKEN_EXPIRY,
+    });
+
+// Device name picked by the client, or its User-Agent
+const describeDevice = (req: Request) =>
+    String(req.body?.device || req.headers['user-agent'] || '').slice(0, 200);
+
+// New session for a user who passed every sign-in step, returns its tokens
+const startSession = async (req: Request, user: IUser) => {
+    const refreshToken = createRefreshToken();
+    const session = await Session.create({
+        user: user._id,
+        refreshTokenHash: hashToken(refreshToken),
+        device: describeDevice(req),
+        ip: req.ip,
+        expiresAt: refreshExpiry(),
+    });
+    return { token: signAccessToken(user, session), refreshToken };
+};
+
+// Remove sessions that expired or were revoked
+export const purgeExpiredSessions = async () => {
+    try {
+        const { deletedCount } = await Session.deleteMany({
+            $or: [{ expiresAt: { $lt: new Date() } }, { revokedAt: { $exists: true } }],
+        });
+        if (deletedCount > 0) {
+            console.log(`Removed ${deletedCount} ended session(s)`);
+        }
+    } catch (error) {
+        console.error('Error purging sessions:', error);
+    }
+};
 
 export const register = async (req: Request, res: Response) => {
     const { username, password, role } = req.body;
@@ -45,16 +96,176 @@ export const login = async (req: Request, res: Response) => {
         if (!passwordMatch)
             return res.status(401).json({ message: 'Invalid credentials' });
 
-        const token = jwt.sign({ userId: user._id }, JWT_SECRET, {
-            expiresIn: '12h',
+        // The session is only created once the code was checked by loginTwoFactor
+        if (user.twoFactorEnabled) {
+            return res.json({
+                message: 'Two-factor code required',
+                twoFactorRequired: true,
+                challengeToken: signTwoFactorChallenge(user, 'login'),
+            });
+        }
+        if (await isTwoFactorRequired(user.role)) {
+            return res.status(403).json({
+                message: 'Two-factor authentication must be set up before signing in',
+                twoFactorSetupRequired: true,
+                challengeToken: signTwoFactorChallenge(user, 'setup'),
+            });
+        }
+
+        res.json({
+            message: 'Login successful',
+            ...await startSession(req, user),
+            role: user.role,
         });
+    } catch (error) {
+        res.status(500).json({ message: 'Server error', error });
+    }
+};
+
+// Second login step: the challenge token from login plus a TOTP code or a recovery code
+export const loginTwoFactor = async (req: Request, res: Response) => {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    try {
+        const userId = verifyTwoFactorChallenge(challengeToken, 'login');
+        if (!userId) {
+            return res.status(401).json({ message: 'Invalid or expired challenge, log in again' });
+        }
+
+        const { user, status, message } = await checkSecondFactor(userId, { code, recoveryCode });
+        if (!user) {
+            return res.status(status).json({ message });
+        }
 
         res.json({
             message: 'Login successful',
-            token,
+            ...await startSession(req, user),
             role: user.role,
+            ...(recoveryCode !== undefined ? { recoveryCodesLeft: user.twoFactorRecoveryCodes.length - 1 } : {}),
         });
     } catch (error) {
         res.status(500).json({ message: 'Server error', error });
     }
 };
+
+// Trade a refresh token for a new access token. The refresh token is replaced every time,
+// presenting a replaced one again revokes the session since someone else must have a copy.
+export const refresh = async (req: Request, res: Response) => {
+    const { refreshToken } = req.body;
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+        return res.status(400).json({ message: 'Missing refresh token' });
+    }
+
+    try {
+        const tokenHash = hashToken(refreshToken);
+        const session = await Session.findOne({ refreshTokenHash: tokenHash });
+        if (!session) {
+            const reused = await Session.findOneAndUpdate(
+                { previousRefreshTokenHash: tokenHash, revokedAt: { $exists: false } },
+                { revokedAt: new Date() }
+            );
+            if (reused) {
+                console.warn(`Refresh token reused, session ${reused._id} revoked`);
+            }
+            return res.status(401).json({ message: 'Invalid refresh token' });
+        }
+        if (session.revokedAt || session.expiresAt < new Date()) {
+            return res.status(401).json({ message: 'Session has ended' });
+        }
+
+        const user = await User.findById(session.user);
+        if (!user) {
+            return res.status(401).json({ message: 'Invalid refresh token' });
+        }
+
+        // Only the first of two concurrent refreshes with the same token wins
+        const nextRefreshToken = createRefreshToken();
+        const rotated = await Session.findOneAndUpdate(
+            { _id: session._id, refreshTokenHash: tokenHash },
+            {
+                refreshTokenHash: hashToken(nextRefreshToken),
+                previousRefreshTokenHash: tokenHash,
+                ip: req.ip,
+                lastUsedAt: new Date(),
+                expiresAt: refreshExpiry(),
+            },
+            { new: true }
+        );
+        if (!rotated) {
+            return res.status(401).json({ message: 'Invalid refresh token' });
+        }
+
+        res.json({
+            token: signAccessToken(user, rotated),
+            refreshToken: nextRefreshToken,
+            role: user.role,
+        });
+    } catch (error) {
+        res.status(500).json({ message: 'Server error', error });
+    }
+};
+
+// End the session of the access token, or the one a refresh token belongs to
+export const logout = async (req: Request, res: Response) => {
+    const { refreshToken } = req.body;
+
+    try {
+        const filter = req.sessionId
+            ? { _id: req.sessionId }
+            : typeof refreshToken === 'string' && refreshToken
+                ? { refreshTokenHash: hashToken(refreshToken) }
+                : null;
+        if (!filter) {
+            return res.status(400).json({ message: 'Missing token' });
+        }
+
+        await Session.updateOne({ ...filter, revokedAt: { $exists: false } }, { revokedAt: new Date() });
+        res.json({ message: 'Logged out' });
+    } catch (error) {
+        res.status(500).json({ message: 'Server error', error });
+    }
+};
+
+// Sessions of the current user that can still be refreshed
+export const listSessions = async (req: Request, res: Response) => {
+    try {
+        const sessions = await Session.find({
+            user: req.user._id,
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() },
+        }).sort({ lastUsedAt: -1 });
+
+        res.json(sessions.map((session) => ({
+            id: session._id,
+            device: session.device,
+            ip: session.ip,
+            createdAt: session.createdAt,
+            lastUsedAt: session.lastUsedAt,
+            expiresAt: session.expiresAt,
+            current: String(session._id) === req.sessionId,
+        })));
+    } catch (error) {
+        res.status(500).json({ message: 'Server error', error });
+    }
+};
+
+// Sign one of the current user's sessions out
+export const revokeSession = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        if (!mongoose.isValidObjectId(id)) {
+            return res.status(404).json({ message: 'Session not found' });
+        }
+
+        const session = await Session.findOneAndUpdate(
+            { _id: id, user: req.user._id, revokedAt: { $exists: false } },
+            { revokedAt: new Date() }
+        );
+        if (!session) {
+            return res.status(404).json({ message: 'Session not found' });
+        }
+        res.json({ message: 'Session revoked' });
+    } catch (error) {
+        res.status(500).json({ message: 'Server error', error });
+    }
+};
@@ -4,6 +4,20 @@ import fs from 'fs';
 import path from 'path';
 import ChunkUpload from '../models/ChunkUpload';
 import ChangeLog from '../models/ChangeLog'; // if you want to log
+import { checkQuota, recordFile } from '../utils/storageUsage';
+import { getStorageDriver } from '../drivers';
+import { safeFileName } from '../utils/safePath';
+import {
+    isValidUploadId,
+    saveChunk,
+    getMissingChunks,
+    getChunksSize,
+    assembleChunks,
+    removeChunkUpload,
+    fileHashMismatchError,
+} from '../utils/chunkStore';
+import { getRunningAssemblyJob, startAssemblyJob, toJobStatus } from '../utils/assemblyJobs';
+import { resolveSharePath } from './shareController';
 
 // POST /share/upload-chunk
 export const uploadChunk = async (req: Request, res: Response) => {
@@ -13,7 +27,7 @@ export const uploadChunk = async (req: Request, res: Response) => {
           - chunk (the binary data) as "chunk"
           - chunkIndex, totalChunks, fileName, uploadId, path
         */
-        const { chunkIndex, totalChunks, fileName, uploadId, path: destPath } = req.body;
+        const { chunkIndex, totalChunks, fileName, uploadId, path: destPath, chunkHash, fileHash, totalSize } = req.body;
         const file = req.file;
 
         if (!file) {
@@ -21,27 +35,33 @@ export const uploadChunk = async (req: Request, res: Response) => {
         }
 
         if (!uploadId || !fileName || !totalChunks) {
+            fs.rmSync(file.path, { force: true });
             return res.status(400).json({ message: 'Missing required fields' });
         }
+        if (safeFileName(fileName) === null || resolveSharePath(destPath || '', true) === null) {
+            fs.rmSync(file.path, { force: true });
+            return res.status(400).json({ message: 'Invalid path' });
+        }
 
-        // Optionally, track in DB
-        const chunkUpload = await ChunkUpload.findOneAndUpdate(
-            { uploadId },
+        // Track the chunk, only the user who started the upload can add to it,
+        // and it can't grow past the totalSize its quota was checked against
+        const { chunkUpload, status, message } = await saveChunk(
+            file,
             {
-                $setOnInsert: {
-                    uploadId,
-                    fileName,
-                    totalChunks,
-                    path: destPath,
-                    createdBy: req.user._id
-                    // No "receivedChunks" here
-                },
-                $inc: { receivedChunks: 1 }, // This will create the field if it doesn’t exist yet
+                uploadId,
+                chunkIndex,
+                totalChunks,
+                fileName,
+                path: destPath,
+                chunkHash,
+                fileHash,
+                totalSize: totalSize || undefined,
             },
-            { new: true, upsert: true }
+            { createdBy: req.user._id }
         );
-
-
+        if (!chunkUpload) {
+            return res.status(status).json({ message });
+        }
 
         // (Optional) Log
         const log = new ChangeLog({
@@ -67,59 +87,95 @@ export const completeUpload = async (req: Request, res: Response) => {
           - uploadId
           - fileName
           - path
-          We'll read all chunk files from /temp_chunks & assemble them into "share" folder
+          We'll stream all chunk files from /temp_chunks into the "share" folder in the background,
+          the response carries the job id to follow the assembly with
         */
         const { uploadId } = req.body;
-        if (!uploadId) {
+        if (!isValidUploadId(uploadId)) {
             return res.status(400).json({ message: 'Missing uploadId' });
         }
 
         // Find the record
-        const chunkUpload = await ChunkUpload.findOne({ uploadId });
+        const chunkUpload = await ChunkUpload.findOne({ uploadId, createdBy: req.user._id });
         if (!chunkUpload) {
             return res.status(404).json({ message: 'No chunk upload data found' });
         }
 
-        const { fileName, totalChunks, path: destPath } = chunkUpload;
-        const basePath = path.join(__dirname, '../share');
-        const targetFolder = destPath ? path.join(basePath, destPath) : basePath;
-        if (!fs.existsSync(targetFolder)) {
-            fs.mkdirSync(targetFolder, { recursive: true });
+        // Completed twice while the first assembly is still running
+        const running = getRunningAssemblyJob(uploadId);
+        if (running) {
+            return res.status(202).json({ message: 'Assembling file', ...toJobStatus(running) });
+        }
+
+        const { fileName, path: destPath } = chunkUpload;
+        const targetFolder = resolveSharePath(destPath || '', true);
+        if (safeFileName(fileName) === null || targetFolder === null) {
+            return res.status(400).json({ message: 'Invalid path' });
         }
 
-        // Create the final file
+        // Chunks may arrive in any order, the file can only be built once all of them are here
+        const missingChunks = getMissingChunks(chunkUpload);
+        if (missingChunks.length > 0) {
+            return res.status(400).json({ message: 'Missing chunks', missingChunks });
+        }
+
+        // Make sure the assembled file fits the quota before writing it
+        const assembledSize = await getChunksSize(chunkUpload);
+        const { allowed, quota, used } = await checkQuota(req.user, assembledSize);
+        if (!allowed) {
+            return res.status(413).json({ message: 'Storage quota exceeded', quota, used, requested: assembledSize });
+        }
+
+        // Create the final file, appending each chunk in order
         const finalFilePath = path.join(targetFolder, fileName);
-        const writeStream = fs.createWriteStream(finalFilePath);
-
-        // Append each chunk in order
-        for (let i = 0; i < totalChunks; i++) {
-            // The front end might name each chunk as the originalFileName
-            // In practice, you'll store chunkIndex in filename or keep it in memory
-            // For demonstration, let's assume it's "fileName-chunkIndex"
-            const chunkPath = path.join(__dirname, '../temp_chunks', `${fileName}-chunk-${i}`);
-            if (!fs.existsSync(chunkPath)) {
-                // If a chunk is missing, handle error
-                return res.status(400).json({ message: `Missing chunk at index ${i}` });
+        const job = startAssemblyJob(
+            { uploadId, fileName, owner: String(req.user._id), totalBytes: assembledSize },
+            async (onProgress) => {
+                const sha256 = await assembleChunks(chunkUpload, getStorageDriver('share'), finalFilePath, onProgress);
+                if (!sha256) {
+                    await removeChunkUpload(chunkUpload);
+                    throw fileHashMismatchError();
+                }
+
+                // Remove the chunks and clean up DB
+                await removeChunkUpload(chunkUpload);
+                await recordFile('share', finalFilePath, req.user._id, assembledSize, undefined, sha256);
+
+                // (Optional) Log final file creation
+                const log = new ChangeLog({
+                    user: req.user._id,
+                    action: 'completeUpload',
+                    itemPath: finalFilePath,
+                });
+                await log.save();
+
+                return { sha256 };
             }
-            const data = fs.readFileSync(chunkPath);
-            writeStream.write(data);
-            // Remove the chunk after writing
-            fs.unlinkSync(chunkPath);
-        }
-        writeStream.end();
+        );
 
-        // Clean up DB
-        await ChunkUpload.deleteOne({ uploadId });
+        return res.status(202).json({ message: 'Assembling file', ...toJobStatus(job) });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({ message: 'Server error' });
+    }
+};
 
-        // (Optional) Log final file creation
-        const log = new ChangeLog({
-            user: req.user._id,
-            action: 'completeUpload',
-            itemPath: path.relative(basePath, finalFilePath),
-        });
-        await log.save();
+// GET /share/upload-status/:uploadId
+export const getUploadStatus = async (req: Request, res: Response) => {
+    try {
+        const chunkUpload = await ChunkUpload.findOne({ uploadId: req.params.uploadId, createdBy: req.user._id });
+        if (!chunkUpload) {
+            return res.status(404).json({ message: 'No chunk upload data found' });
+        }
 
-        return res.status(200).json({ message: 'File assembled successfully' });
+        return res.status(200).json({
+            uploadId: chunkUpload.uploadId,
+            fileName: chunkUpload.fileName,
+            path: chunkUpload.path,
+            totalChunks: chunkUpload.totalChunks,
+            receivedChunks: [...chunkUpload.receivedChunks].sort((a, b) => a - b),
+            missingChunks: getMissingChunks(chunkUpload),
+        });
     } catch (error) {
         console.error(error);
         return res.status(500).json({ message: 'Server error' });
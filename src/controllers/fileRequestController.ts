@@ -0,0 +1,276 @@
+// controllers/fileRequestController.ts
+import { Request, Response } from 'express';
+import fs from 'fs';
+import path from 'path';
+import mime from 'mime-types';
+import ChunkUpload from '../models/ChunkUpload';
+import ChangeLog from '../models/ChangeLog';
+import SharedItem, { ISharedItem } from '../models/SharedItem';
+import User from '../models/User';
+import { findAccessibleSharedItem } from './shareController';
+import { isMimeTypeAllowed } from './addFilesController';
+import { checkQuota, recordFile } from '../utils/storageUsage';
+import { safeFileName } from '../utils/safePath';
+import { getStorageDriver } from '../drivers';
+import { SHARE_UPLOAD_MAX_PENDING } from '../config/config';
+import {
+    isValidUploadId,
+    saveChunk,
+    getMissingChunks,
+    getChunksSize,
+    buildAssembledFile,
+    removeChunkUpload,
+    fileHashMismatchError,
+} from '../utils/chunkStore';
+import { getRunningAssemblyJob, startAssemblyJob, toJobStatus } from '../utils/assemblyJobs';
+
+const share = getStorageDriver('share');
+
+// Drop a chunk that was written by multer but won't be used
+const discardChunk = (file?: Express.Multer.File) => {
+    if (file && fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+    }
+};
+
+// Share link that accepts uploads, or the status and message to respond with
+const findFileRequest = async (req: Request) => {
+    const { sharedItem, status, message } = await findAccessibleSharedItem(req, true, false);
+    if (!sharedItem) {
+        return { status, message };
+    }
+    if (sharedItem.uploadFolder === undefined) {
+        return { status: 403, message: 'This share link does not accept uploads' };
+    }
+    return { sharedItem, status: 200, message: 'OK' };
+};
+
+// Whether one more file of `size` bytes still fits the link's limits
+const fitsUploadLimits = (sharedItem: ISharedItem, size: number) =>
+    (!sharedItem.uploadMaxFiles || sharedItem.uploadedFiles < sharedItem.uploadMaxFiles) &&
+    (!sharedItem.uploadMaxTotalSize || sharedItem.uploadedSize + size <= sharedItem.uploadMaxTotalSize);
+
+// Count a file against the link's limits, unless concurrent uploads already used them up
+const claimUpload = async (sharedItem: ISharedItem, size: number) => {
+    const updated = await SharedItem.findOneAndUpdate(
+        {
+            _id: sharedItem._id,
+            $and: [
+                { $or: [{ uploadMaxFiles: null }, { $expr: { $lt: ['$uploadedFiles', '$uploadMaxFiles'] } }] },
+                {
+                    $or: [
+                        { uploadMaxTotalSize: null },
+                        { $expr: { $lte: [{ $add: ['$uploadedSize', size] }, '$uploadMaxTotalSize'] } },
+                    ],
+                },
+            ],
+        },
+        { $inc: { uploadedFiles: 1, uploadedSize: size } }
+    );
+    return !!updated;
+};
+
+// Give the room claimed for a file back when it could not be stored
+const releaseUpload = (sharedItem: ISharedItem, size: number) =>
+    SharedItem.updateOne({ _id: sharedItem._id }, { $inc: { uploadedFiles: -1, uploadedSize: -size } });
+
+// Recipients never overwrite what is already in the folder, "name (n).ext" is used instead.
+// Each name is claimed with an exclusive put, so two uploads of the same name can't both take it.
+const putInFreeUploadPath = async (localPath: string, folder: string, fileName: string) => {
+    const ext = path.extname(fileName);
+    const base = fileName.slice(0, fileName.length - ext.length);
+
+    for (let i = 0; ; i++) {
+        const candidate = path.join(folder, i === 0 ? fileName : `${base} (${i})${ext}`);
+        try {
+            await share.putFile(localPath, candidate, { exclusive: true });
+            return candidate;
+        } catch (error: any) {
+            if (error.code !== 'EEXIST') {
+                throw error;
+            }
+        }
+    }
+};
+
+// POST /share/:code/upload-chunk
+export const uploadChunkToSharedItem = async (req: Request, res: Response) => {
+    try {
+        const { chunkIndex, totalChunks, fileName, uploadId, totalSize, chunkHash, fileHash } = req.body;
+        const file = req.file;
+
+        if (!file) {
+            return res.status(400).json({ message: 'No chunk file provided' });
+        }
+        if (!uploadId || !fileName || !totalChunks) {
+            discardChunk(file);
+            return res.status(400).json({ message: 'Missing required fields' });
+        }
+        const declaredSize = Number(totalSize);
+        if (!Number.isSafeInteger(declaredSize) || declaredSize <= 0) {
+            discardChunk(file);
+            return res.status(400).json({ message: 'totalSize is required' });
+        }
+        if (safeFileName(fileName) === null) {
+            discardChunk(file);
+            return res.status(400).json({ message: 'Invalid file name' });
+        }
+
+        // Verify the link accepts uploads and the file fits its limits
+        const { sharedItem, status, message } = await findFileRequest(req);
+        if (!sharedItem) {
+            discardChunk(file);
+            return res.status(status).json({ message });
+        }
+        const allowedMimeTypes = sharedItem.uploadAllowedMimeTypes;
+        if (!isMimeTypeAllowed({ allowedMimeTypes }, mime.lookup(fileName) || 'application/octet-stream')) {
+            discardChunk(file);
+            return res.status(415).json({ message: 'File type is not allowed for this link' });
+        }
+        if (!fitsUploadLimits(sharedItem, declaredSize)) {
+            discardChunk(file);
+            return res.status(413).json({ message: 'Upload exceeds the limits of this link' });
+        }
+
+        // Unfinished uploads through the link take up room as well: their number is capped,
+        // and the bytes they received count against the link's limits and the owner's quota
+        const pending = await ChunkUpload.find({ shareCode: sharedItem.code }).select('uploadId receivedBytes').lean();
+        if (!pending.some((item) => item.uploadId === uploadId)) {
+            const freeFiles = sharedItem.uploadMaxFiles ? sharedItem.uploadMaxFiles - sharedItem.uploadedFiles : Infinity;
+            if (pending.length >= Math.min(SHARE_UPLOAD_MAX_PENDING, freeFiles)) {
+                discardChunk(file);
+                return res.status(429).json({ message: 'Too many unfinished uploads for this link' });
+            }
+        }
+        const pendingBytes = pending.reduce((sum, item) => sum + (item.receivedBytes || 0), 0);
+        if (!fitsUploadLimits(sharedItem, pendingBytes + file.size)) {
+            discardChunk(file);
+            return res.status(413).json({ message: 'Upload exceeds the limits of this link' });
+        }
+        const owner = await User.findById(sharedItem.createdBy);
+        if (!owner) {
+            discardChunk(file);
+            return res.status(410).json({ message: 'Share link owner no longer exists' });
+        }
+        if (!(await checkQuota(owner, pendingBytes + file.size)).allowed) {
+            discardChunk(file);
+            return res.status(413).json({ message: 'Storage quota exceeded' });
+        }
+
+        // Uploads started through another link or by a signed-in user can't be continued here,
+        // and never receive more than the totalSize given with their first chunk
+        const { chunkUpload, status: chunkStatus, message: chunkMessage } = await saveChunk(
+            file,
+            {
+                uploadId,
+                chunkIndex,
+                totalChunks,
+                fileName,
+                path: sharedItem.uploadFolder,
+                chunkHash,
+                fileHash,
+                totalSize: declaredSize,
+            },
+            { shareCode: sharedItem.code }
+        );
+        if (!chunkUpload) {
+            return res.status(chunkStatus).json({ message: chunkMessage });
+        }
+
+        return res.status(200).json({ message: 'Chunk uploaded', chunkIndex });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({ message: 'Server error' });
+    }
+};
+
+// POST /share/:code/complete-upload
+export const completeSharedItemUpload = async (req: Request, res: Response) => {
+    try {
+        const { uploadId } = req.body;
+        if (!isValidUploadId(uploadId)) {
+            return res.status(400).json({ message: 'Missing uploadId' });
+        }
+
+        const { sharedItem, status, message } = await findFileRequest(req);
+        if (!sharedItem) {
+            return res.status(status).json({ message });
+        }
+
+        // Find the record
+        const chunkUpload = await ChunkUpload.findOne({ uploadId, shareCode: sharedItem.code });
+        if (!chunkUpload) {
+            return res.status(404).json({ message: 'No chunk upload data found' });
+        }
+
+        // Completed twice while the first assembly is still running, the file was claimed already
+        const running = getRunningAssemblyJob(uploadId);
+        if (running) {
+            return res.status(202).json({ message: 'Assembling file', ...toJobStatus(running) });
+        }
+
+        const { fileName } = chunkUpload;
+        if (safeFileName(fileName) === null) {
+            return res.status(400).json({ message: 'Invalid file name' });
+        }
+
+        const missingChunks = getMissingChunks(chunkUpload);
+        if (missingChunks.length > 0) {
+            return res.status(400).json({ message: 'Missing chunks', missingChunks });
+        }
+        const assembledSize = await getChunksSize(chunkUpload);
+
+        // Uploads count against the quota of the link's owner
+        const owner = await User.findById(sharedItem.createdBy);
+        if (!owner) {
+            return res.status(410).json({ message: 'Share link owner no longer exists' });
+        }
+        const { allowed } = await checkQuota(owner, assembledSize);
+        if (!allowed) {
+            return res.status(413).json({ message: 'Storage quota exceeded' });
+        }
+        if (!(await claimUpload(sharedItem, assembledSize))) {
+            return res.status(413).json({ message: 'Upload exceeds the limits of this link' });
+        }
+
+        // Create the final file, appending each chunk in order
+        const job = startAssemblyJob({ uploadId, fileName, totalBytes: assembledSize }, async (onProgress) => {
+            let assembled: Awaited<ReturnType<typeof buildAssembledFile>>;
+            let finalFilePath: string;
+            try {
+                assembled = await buildAssembledFile(chunkUpload, onProgress);
+                if (!assembled) {
+                    await removeChunkUpload(chunkUpload);
+                    throw fileHashMismatchError();
+                }
+                finalFilePath = await putInFreeUploadPath(
+                    assembled.assembledPath,
+                    sharedItem.uploadFolder as string,
+                    fileName
+                );
+            } catch (error) {
+                await releaseUpload(sharedItem, assembledSize);
+                throw error;
+            }
+            const { sha256 } = assembled;
+
+            // Remove the chunks and clean up DB
+            await removeChunkUpload(chunkUpload);
+            await recordFile('share', finalFilePath, sharedItem.createdBy, assembledSize, undefined, sha256);
+
+            const log = new ChangeLog({
+                action: 'anonymousUpload',
+                shareCode: sharedItem.code,
+                itemPath: finalFilePath,
+            });
+            await log.save();
+
+            return { fileName: path.basename(finalFilePath), sha256 };
+        });
+
+        return res.status(202).json({ message: 'Assembling file', ...toJobStatus(job) });
+    } catch (error) {
+        console.error(error);
+        return res.status(500).json({ message: 'Server error' });
+    }
+};
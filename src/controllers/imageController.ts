@@ -1,24 +1,33 @@
 // controllers/imageController.ts
 
-import { Request, Response } from 'express';
-import path from 'path';
-import fs from 'fs';
+import { Request, Response, NextFunction } from 'express';
 import multer from 'multer';
+import { v4 as uuidv4 } from 'uuid';
+import { getStorageDriver, getStagingDir } from '../drivers';
+import { sendStoredFile } from '../utils/storedFiles';
+import { safeFileName, invalidFileNameError } from '../utils/safePath';
 
-// Set up multer storage configuration
+const images = getStorageDriver('images');
+
+// Image names are stored as-is at the root of the images area
+const validFilenameRegex = /^[a-zA-Z0-9_\-\.\(\)]+\.(jpg|jpeg|png|gif)$/i;
+const isValidImageName = (name: unknown) => safeFileName(name) !== null && validFilenameRegex.test(name as string);
+
+// Set up multer storage configuration, uploads are staged and then handed to the images driver
 const storage = multer.diskStorage({
     destination: (req, file, cb) => {
-        cb(null, path.join(__dirname, '../images'));
+        cb(null, getStagingDir('images'));
     },
     filename: (req, file, cb) => {
-        // Use original file name
-        cb(null, file.originalname);
+        cb(null, uuidv4());
     },
 });
 
 // File filter to allow only image files
 const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-    if (/\.(jpg|jpeg|png|gif)$/i.test(file.originalname)) {
+    if (safeFileName(file.originalname) === null) {
+        cb(invalidFileNameError(file.originalname));
+    } else if (/\.(jpg|jpeg|png|gif)$/i.test(file.originalname)) {
         cb(null, true);
     } else {
         cb(new Error('Only image files are allowed!'));
@@ -28,74 +37,92 @@ const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilt
 export const upload = multer({ storage, fileFilter });
 
 // Upload a new image
-export const uploadImage = (req: Request, res: Response) => {
+export const uploadImage = async (req: Request, res: Response) => {
     if (!req.file) {
         return res.status(400).json({ message: 'No file uploaded or invalid file type' });
     }
-    res.status(201).json({ message: 'Image uploaded successfully', filename: req.file.filename });
+
+    try {
+        // Use original file name
+        await images.putFile(req.file.path, req.file.originalname);
+        res.status(201).json({ message: 'Image uploaded successfully', filename: req.file.originalname });
+    } catch (error) {
+        console.error('Error storing image:', error);
+        res.status(500).json({ message: 'Error uploading image' });
+    }
 };
 
 // Update (rename) an existing image
 export const updateImageName = (req: Request, res: Response) => {
     const { oldName, newName } = req.body;
 
-    // Updated regex to include parentheses
-    const validFilenameRegex = /^[a-zA-Z0-9_\-\.\(\)]+\.(jpg|jpeg|png|gif)$/i;
-
     // Validate file names to prevent directory traversal attacks
-    if (!validFilenameRegex.test(oldName) || !validFilenameRegex.test(newName)) {
+    if (!isValidImageName(oldName) || !isValidImageName(newName)) {
         return res.status(400).json({ message: 'Invalid file names' });
     }
 
-    const oldPath = path.join(__dirname, '../images', oldName);
-    const newPath = path.join(__dirname, '../images', newName);
-
-    fs.rename(oldPath, newPath, (err) => {
-        if (err) {
+    images.rename(oldName, newName)
+        .then(() => res.json({ message: 'Image renamed successfully' }))
+        .catch((err) => {
             console.error('Error renaming image:', err);
-            return res.status(500).json({ message: 'Error renaming image' });
-        }
-        res.json({ message: 'Image renamed successfully' });
-    });
+            res.status(500).json({ message: 'Error renaming image' });
+        });
 };
 
 // Delete an image
 export const deleteImage = (req: Request, res: Response) => {
     const { filename } = req.params;
 
-    // Updated regex to include parentheses
-    const validFilenameRegex = /^[a-zA-Z0-9_\-\.\(\)]+\.(jpg|jpeg|png|gif)$/i;
-
     // Validate filename
-    if (!validFilenameRegex.test(filename)) {
+    if (!isValidImageName(filename)) {
         return res.status(400).json({ message: 'Invalid filename' });
     }
 
-    const filePath = path.join(__dirname, '../images', filename);
-
-    fs.unlink(filePath, (err) => {
-        if (err) {
+    images.stat(filename)
+        .then(async (stats) => {
+            if (!stats) {
+                throw new Error(`Image not found: ${filename}`);
+            }
+            await images.remove(filename);
+            res.json({ message: 'Image deleted successfully' });
+        })
+        .catch((err) => {
             console.error('Error deleting image:', err);
-            return res.status(500).json({ message: 'Error deleting image' });
-        }
-        res.json({ message: 'Image deleted successfully' });
-    });
+            res.status(500).json({ message: 'Error deleting image' });
+        });
 };
 
 // List all images
 export const listImages = (req: Request, res: Response) => {
-    const imagesDir = path.join(__dirname, '../images');
-
-    fs.readdir(imagesDir, (err, files) => {
-        if (err) {
+    images.list('')
+        .then((files) => {
+            const imageFiles = files
+                .filter((file) => file.isFile && /\.(jpg|jpeg|png|gif)$/i.test(file.name))
+                .map((file) => file.name);
+
+            res.json({ images: imageFiles });
+        })
+        .catch((err) => {
             console.error('Error reading images directory:', err);
-            return res.status(500).json({ error: 'Unable to scan images directory' });
-        }
-
-        const imageFiles = files.filter((file) => {
-            return /\.(jpg|jpeg|png|gif)$/i.test(file);
+            res.status(500).json({ error: 'Unable to scan images directory' });
         });
+};
 
-        res.json({ images: imageFiles });
-    });
+// Serve an image from the images driver (used instead of express.static for remote drivers)
+export const serveImage = async (req: Request, res: Response, next: NextFunction) => {
+    const filename = req.path.replace(/^\/+/, '');
+    if (!isValidImageName(filename)) {
+        return next();
+    }
+
+    try {
+        if (!(await sendStoredFile(res, images, filename))) {
+            next();
+        }
+    } catch (error) {
+        console.error('Error serving image:', error);
+        if (!res.headersSent) {
+            res.status(500).json({ message: 'Error serving image' });
+        }
+    }
 };
@@ -1,24 +1,35 @@
 import { Request, Response } from 'express';
-import fs from 'fs';
 import path from 'path';
+import fs from 'fs';
 import multer from 'multer';
 import { v4 as uuidv4 } from 'uuid';
-import SharedItem from '../models/SharedItem';
+import SharedItem, { ISharedItem } from '../models/SharedItem';
 import ChangeLog from '../models/ChangeLog';
 import archiver from 'archiver';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import { JWT_SECRET, SHARE_UNLOCK_TOKEN_EXPIRY } from '../config/config';
+import { getStorageDriver, getStagingDir, StorageStats } from '../drivers';
+import { sendStoredFile, addToArchive } from '../utils/storedFiles';
+import { resolveSafePath, safeFileName } from '../utils/safePath';
+import { recordFile, moveFileRecords, removeFileRecords, getFileChecksum } from '../utils/storageUsage';
+import { trackShareAccess, buildShareStats, getLastAccessTimes } from '../utils/shareAnalytics';
+
+
+const share = getStorageDriver('share');
+const shareDir = path.join(__dirname, '../share');
 
+// Client path relative to the share folder, or null when it could point outside of it
+export const resolveSharePath = (inputPath: unknown, allowRoot = false) =>
+    resolveSafePath(shareDir, inputPath, { allowRoot, checkSymlinks: share.type === 'local' });
 
-// Configure multer for multiple file uploads
+// Configure multer for multiple file uploads, files are staged and then handed to the share driver
 const storage = multer.diskStorage({
     destination: (req, file, cb) => {
-        const { path: uploadPathParam } = req.body;
-        const basePath = path.join(__dirname, '../share');
-        const uploadPath = uploadPathParam ? path.join(basePath, uploadPathParam) : basePath;
-        fs.mkdirSync(uploadPath, { recursive: true });
-        cb(null, uploadPath);
+        cb(null, getStagingDir('share'));
     },
     filename: (req, file, cb) => {
-        cb(null, file.originalname);
+        cb(null, uuidv4());
     },
 });
 
@@ -28,139 +39,229 @@ export const upload = multer({ storage });
 export const uploadFiles = [
     upload.array('files', 20),
     async (req: Request, res: Response) => {
-        if (!req.files) {
-            return res.status(400).json({ message: 'No files uploaded' });
-        }
+        try {
+            if (!req.files) {
+                return res.status(400).json({ message: 'No files uploaded' });
+            }
 
-        const { path: uploadPathParam } = req.body;
-        const basePath = path.join(__dirname, '../share');
-        const uploadPath = uploadPathParam ? path.join(basePath, uploadPathParam) : basePath;
+            const files = req.files as Express.Multer.File[];
+            const uploadPath = resolveSharePath(req.body.path || '', true);
 
-        // Log the upload action
-        for (const file of req.files as Express.Multer.File[]) {
-            const relativePath = path.relative(basePath, path.join(uploadPath, file.originalname));
-            const log = new ChangeLog({
-                user: req.user._id,
-                action: 'upload',
-                itemPath: relativePath,
-            });
-            await log.save();
-        }
+            // Prevent directory traversal, staged files are dropped if anything is invalid
+            if (uploadPath === null || files.some((file) => safeFileName(file.originalname) === null)) {
+                for (const file of files) {
+                    fs.rmSync(file.path, { force: true });
+                }
+                return res.status(400).json({ message: 'Invalid path' });
+            }
+
+            // Store and log each file
+            for (const file of files) {
+                const relativePath = path.join(uploadPath, file.originalname);
+                await share.putFile(file.path, relativePath);
+
+                const log = new ChangeLog({
+                    user: req.user._id,
+                    action: 'upload',
+                    itemPath: relativePath,
+                });
+                await log.save();
+                await recordFile('share', relativePath, req.user._id, file.size);
+            }
 
-        res.status(201).json({ message: 'Files uploaded successfully' });
+            res.status(201).json({ message: 'Files uploaded successfully' });
+        } catch (error) {
+            // Files that were not stored yet stay in the staging folder otherwise
+            for (const file of (req.files as Express.Multer.File[]) || []) {
+                fs.rmSync(file.path, { force: true });
+            }
+            console.error('Error uploading files:', error);
+            res.status(500).json({ message: 'Internal server error' });
+        }
     },
 ];
 
 // Create a new folder
 export const createFolder = async (req: Request, res: Response) => {
-    const { folderName, path: folderPathParam } = req.body;
-    const basePath = path.join(__dirname, '../share');
-    const folderPath = folderPathParam ? path.join(basePath, folderPathParam, folderName) : path.join(basePath, folderName);
+    try {
+        const { folderName, path: folderPathParam } = req.body;
+        const parentPath = resolveSharePath(folderPathParam || '', true);
 
-    if (fs.existsSync(folderPath)) {
-        return res.status(400).json({ message: 'Folder already exists' });
-    }
+        // Prevent directory traversal
+        if (parentPath === null || safeFileName(folderName) === null) {
+            return res.status(400).json({ message: 'Invalid path' });
+        }
 
-    fs.mkdirSync(folderPath, { recursive: true });
+        const folderPath = path.join(parentPath, folderName);
+        if (await share.stat(folderPath)) {
+            return res.status(400).json({ message: 'Folder already exists' });
+        }
 
-    // Log the folder creation
-    const log = new ChangeLog({
-        user: req.user._id,
-        action: 'createFolder',
-        itemPath: path.relative(basePath, folderPath),
-    });
-    await log.save();
+        await share.mkdir(folderPath);
 
-    res.status(201).json({ message: 'Folder created successfully' });
+        // Log the folder creation
+        const log = new ChangeLog({
+            user: req.user._id,
+            action: 'createFolder',
+            itemPath: folderPath,
+        });
+        await log.save();
+
+        res.status(201).json({ message: 'Folder created successfully' });
+    } catch (error) {
+        console.error('Error creating folder:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
 };
 
 // Rename a file or folder
 export const renameItem = async (req: Request, res: Response) => {
-    const { oldPath, newName } = req.body;
-    const basePath = path.join(__dirname, '../share');
-    const oldFullPath = path.join(basePath, oldPath);
-    const newFullPath = path.join(basePath, path.dirname(oldPath), newName);
+    try {
+        const { oldPath: oldPathParam, newName } = req.body;
+        const oldPath = resolveSharePath(oldPathParam);
 
-    if (!fs.existsSync(oldFullPath)) {
-        return res.status(404).json({ message: 'Item not found' });
-    }
+        // Prevent directory traversal
+        if (oldPath === null || safeFileName(newName) === null) {
+            return res.status(400).json({ message: 'Invalid path' });
+        }
 
-    fs.renameSync(oldFullPath, newFullPath);
+        const newPath = path.join(path.dirname(oldPath), newName);
+        if (!(await share.stat(oldPath))) {
+            return res.status(404).json({ message: 'Item not found' });
+        }
 
-    // Log the rename action
-    const log = new ChangeLog({
-        user: req.user._id,
-        action: 'rename',
-        itemPath: `${oldPath} -> ${path.relative(basePath, newFullPath)}`,
-    });
-    await log.save();
+        await share.rename(oldPath, newPath);
+        await moveFileRecords('share', oldPath, newPath);
 
-    res.json({ message: 'Item renamed successfully' });
+        // Log the rename action
+        const log = new ChangeLog({
+            user: req.user._id,
+            action: 'rename',
+            itemPath: `${oldPath} -> ${newPath}`,
+        });
+        await log.save();
+
+        res.json({ message: 'Item renamed successfully' });
+    } catch (error) {
+        console.error('Error renaming item:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
 };
 
 // Delete a file or folder
 export const deleteItem = async (req: Request, res: Response) => {
-    const { itemPath } = req.body;
-
-    if (!itemPath || typeof itemPath !== 'string') {
-        return res.status(400).json({ message: 'Invalid item path' });
-    }
+    try {
+        const itemPath = resolveSharePath(req.body.itemPath);
 
-    const basePath = path.join(__dirname, '../share');
-    const fullPath = path.join(basePath, itemPath);
+        if (itemPath === null) {
+            return res.status(400).json({ message: 'Invalid item path' });
+        }
 
-    if (!fs.existsSync(fullPath)) {
-        return res.status(404).json({ message: 'Item not found' });
-    }
+        if (!(await share.stat(itemPath))) {
+            return res.status(404).json({ message: 'Item not found' });
+        }
 
-    fs.rmSync(fullPath, { recursive: true, force: true });
+        await share.remove(itemPath);
+        await removeFileRecords('share', itemPath);
 
-    // Log the delete action
-    const log = new ChangeLog({
-        user: req.user._id,
-        action: 'delete',
-        itemPath: itemPath,
-    });
-    await log.save();
+        // Log the delete action
+        const log = new ChangeLog({
+            user: req.user._id,
+            action: 'delete',
+            itemPath: itemPath,
+        });
+        await log.save();
 
-    res.json({ message: 'Item deleted successfully' });
+        res.json({ message: 'Item deleted successfully' });
+    } catch (error) {
+        console.error('Error deleting item:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
 };
 
 // Move a file or folder
 export const moveItem = async (req: Request, res: Response) => {
-    const { itemPath, destinationPath } = req.body;
-    const basePath = path.join(__dirname, '../share');
-    const fullItemPath = path.join(basePath, itemPath);
-    const fullDestPath = path.join(basePath, destinationPath, path.basename(itemPath));
+    try {
+        const itemPath = resolveSharePath(req.body.itemPath);
+        const destinationFolder = resolveSharePath(req.body.destinationPath || '', true);
 
-    if (!fs.existsSync(fullItemPath)) {
-        return res.status(404).json({ message: 'Item not found' });
-    }
+        // Prevent directory traversal
+        if (itemPath === null || destinationFolder === null) {
+            return res.status(400).json({ message: 'Invalid path' });
+        }
 
-    fs.renameSync(fullItemPath, fullDestPath);
+        const destinationPath = path.join(destinationFolder, path.basename(itemPath));
+        if (!(await share.stat(itemPath))) {
+            return res.status(404).json({ message: 'Item not found' });
+        }
 
-    // Log the move action
-    const log = new ChangeLog({
-        user: req.user._id,
-        action: 'move',
-        itemPath: `${itemPath} -> ${path.relative(basePath, fullDestPath)}`,
-    });
-    await log.save();
+        await share.rename(itemPath, destinationPath);
+        await moveFileRecords('share', itemPath, destinationPath);
+
+        // Log the move action
+        const log = new ChangeLog({
+            user: req.user._id,
+            action: 'move',
+            itemPath: `${itemPath} -> ${destinationPath}`,
+        });
+        await log.save();
 
-    res.json({ message: 'Item moved successfully' });
+        res.json({ message: 'Item moved successfully' });
+    } catch (error) {
+        console.error('Error moving item:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
 };
 
 // Create a share link for selected items
 export const createShareLink = async (req: Request, res: Response) => {
     try {
-        const { items } = req.body;
-
-        // Validate request body
-        if (!items || !Array.isArray(items) || items.length === 0) {
+        const {
+            items = [],
+            expiresIn,
+            password,
+            maxDownloads,
+            uploadFolder,
+            uploadMaxTotalSize,
+            uploadMaxFiles,
+            uploadAllowedMimeTypes,
+        } = req.body;
+
+        // Validate request body, a file-request link does not need to share anything
+        if (!Array.isArray(items) || (items.length === 0 && uploadFolder === undefined)) {
             return res.status(400).json({ message: 'No items provided for sharing' });
         }
+        if (expiresIn !== undefined && (typeof expiresIn !== 'number' || expiresIn <= 0)) {
+            return res.status(400).json({ message: 'expiresIn must be a positive number of hours' });
+        }
+        if (password !== undefined && (typeof password !== 'string' || password === '')) {
+            return res.status(400).json({ message: 'Password must be a non-empty string' });
+        }
+        if (maxDownloads !== undefined && (!Number.isInteger(maxDownloads) || maxDownloads <= 0)) {
+            return res.status(400).json({ message: 'maxDownloads must be a positive integer' });
+        }
+        if (uploadMaxTotalSize !== undefined && (typeof uploadMaxTotalSize !== 'number' || uploadMaxTotalSize <= 0)) {
+            return res.status(400).json({ message: 'uploadMaxTotalSize must be a positive number of bytes' });
+        }
+        if (uploadMaxFiles !== undefined && (!Number.isInteger(uploadMaxFiles) || uploadMaxFiles <= 0)) {
+            return res.status(400).json({ message: 'uploadMaxFiles must be a positive integer' });
+        }
+        if (uploadAllowedMimeTypes !== undefined && (
+            !Array.isArray(uploadAllowedMimeTypes) ||
+            uploadAllowedMimeTypes.some((type: any) => typeof type !== 'string' || !type.includes('/'))
+        )) {
+            return res.status(400).json({ message: 'Invalid allowed MIME types' });
+        }
 
-        const basePath = path.join(__dirname, '../share');
+        // File-request mode: the folder recipients upload into must exist
+        let uploadPath: string | null | undefined;
+        if (uploadFolder !== undefined) {
+            uploadPath = resolveSharePath(uploadFolder, true);
+            const stats = uploadPath !== null ? await share.stat(uploadPath) : null;
+            if (!stats || !stats.isDirectory) {
+                return res.status(400).json({ message: 'uploadFolder must be an existing folder' });
+            }
+        }
 
         // Validate items are strings and not null/undefined
         const validItems = items.filter((item: any) => typeof item === 'string' && item.trim() !== '');
@@ -169,22 +270,23 @@ export const createShareLink = async (req: Request, res: Response) => {
             return res.status(400).json({ message: 'Invalid items in the list' });
         }
 
-        // Filter out folders and validate that files exist
-        // Filter out folders and validate that files exist
-        const validFiles = validItems.filter((itemPath: string) => {
-            const fullPath = path.join(basePath, itemPath);
-            const stats = fs.existsSync(fullPath) ? fs.statSync(fullPath) : null;
-            return stats && stats.isFile(); // Only include files
-        });
+        // Keep files and folders that exist inside the share folder
+        const sharedPaths: string[] = [];
+        for (const itemPath of validItems) {
+            const sharedPath = resolveSharePath(itemPath);
+            if (sharedPath !== null && await share.stat(sharedPath)) {
+                sharedPaths.push(sharedPath);
+            }
+        }
 
-        if (validFiles.length === 0) {
-            return res.status(400).json({ message: 'No valid files to share' });
+        if (sharedPaths.length === 0 && items.length > 0) {
+            return res.status(400).json({ message: 'No valid items to share' });
         }
 
 
         // Generate a unique code
         let code: string;
-        let existing: SharedItem | null;
+        let existing: ISharedItem | null;
         do {
             code = uuidv4().replace(/-/g, '').slice(0, 30); // Generate a 30-character code
             existing = await SharedItem.findOne({ code });
@@ -193,21 +295,36 @@ export const createShareLink = async (req: Request, res: Response) => {
         // Create shared item entry
         const sharedItem = new SharedItem({
             code,
-            paths: validFiles,
+            paths: sharedPaths,
             createdBy: req.user._id,
+            expiresAt: expiresIn ? new Date(Date.now() + expiresIn * 60 * 60 * 1000) : undefined,
+            passwordHash: password ? await bcrypt.hash(password, 10) : undefined,
+            maxDownloads,
+            uploadFolder: uploadPath ?? undefined,
+            uploadMaxTotalSize,
+            uploadMaxFiles,
+            uploadAllowedMimeTypes: uploadAllowedMimeTypes || [],
         });
 
         await sharedItem.save();
 
         // Log the sharing action
+        const loggedPaths = typeof uploadPath === 'string' ? [...sharedPaths, `upload -> ${uploadPath || '/'}`] : sharedPaths;
         const log = new ChangeLog({
             user: req.user._id,
             action: 'share',
-            itemPath: validFiles.join(', '),
+            itemPath: loggedPaths.join(', '),
         });
         await log.save();
 
-        res.status(201).json({ message: 'Share link created', link: `/share/${code}` });
+        res.status(201).json({
+            message: 'Share link created',
+            link: `/share/${code}`,
+            expiresAt: sharedItem.expiresAt,
+            passwordProtected: !!sharedItem.passwordHash,
+            maxDownloads: sharedItem.maxDownloads,
+            uploadFolder: sharedItem.uploadFolder,
+        });
     } catch (error) {
         console.error('Error in createShareLink:', error);
         res.status(500).json({ message: 'Internal server error' });
@@ -217,8 +334,37 @@ export const createShareLink = async (req: Request, res: Response) => {
 
 // List all share links created by the user
 export const listShareLinks = async (req: Request, res: Response) => {
-    const sharedItems = await SharedItem.find({ createdBy: req.user._id });
-    res.json(sharedItems);
+    try {
+        const sharedItems = await SharedItem.find({ createdBy: req.user._id }).lean();
+        const lastAccessTimes = await getLastAccessTimes('item', sharedItems.map((item) => item.code));
+
+        res.json(sharedItems.map(({ passwordHash, ...sharedItem }) => ({
+            ...sharedItem,
+            passwordProtected: !!passwordHash,
+            lastAccessedAt: lastAccessTimes.get(sharedItem.code) || null,
+        })));
+    } catch (error) {
+        console.error('Error listing share links:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+};
+
+// Access statistics for one of the user's share links
+export const getShareLinkStats = async (req: Request, res: Response) => {
+    try {
+        const { code } = req.params;
+        const sharedItem = await SharedItem.findOne({ code, createdBy: req.user._id });
+
+        if (!sharedItem) {
+            return res.status(404).json({ message: 'Share link not found' });
+        }
+
+        const stats = await buildShareStats('item', code);
+        res.json({ code, downloadCount: sharedItem.downloadCount, ...stats });
+    } catch (error) {
+        console.error('Error fetching share link stats:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
 };
 
 // Delete a share link
@@ -241,16 +387,194 @@ export const deleteShareLink = async (req: Request, res: Response) => {
     res.json({ message: 'Share link deleted' });
 };
 
-// Access shared items via link
-export const accessSharedItems = async (req: Request, res: Response) => {
+// Token sent back by the unlock step, as X-Share-Token header or ?token= for plain links
+const hasUnlockToken = (req: Request, code: string) => {
+    const token = req.get('X-Share-Token') || req.query.token;
+    if (!token || typeof token !== 'string') {
+        return false;
+    }
+
+    try {
+        const decoded: any = jwt.verify(token, JWT_SECRET as string);
+        return decoded.shareCode === code;
+    } catch {
+        return false;
+    }
+};
+
+// Look up a share link and check its expiry, download limit and (optionally) unlock token.
+// Uploads through a file-request link are not bound by the download limit.
+export const findAccessibleSharedItem = async (req: Request, checkToken = true, checkDownloads = true) => {
     const { code } = req.params;
     const sharedItem = await SharedItem.findOne({ code });
 
     if (!sharedItem) {
-        return res.status(404).json({ message: 'Share link not found or expired' });
+        return { status: 404, message: 'Share link not found or expired' };
+    }
+    if (sharedItem.expiresAt && sharedItem.expiresAt < new Date()) {
+        return { status: 410, message: 'Shared link has expired' };
+    }
+    if (checkDownloads && sharedItem.maxDownloads && sharedItem.downloadCount >= sharedItem.maxDownloads) {
+        return { status: 410, message: 'Shared link has reached its download limit' };
+    }
+    if (checkToken && sharedItem.passwordHash && !hasUnlockToken(req, code)) {
+        return { status: 401, message: 'Shared link is password protected' };
+    }
+
+    return { sharedItem, status: 200, message: 'OK' };
+};
+
+// Path (relative to the share folder) of a file or folder requested through a share link,
+// or null when it is not one of the shared roots or inside one of them
+const resolveSharedPath = (sharedItem: ISharedItem, requestedPath: unknown) => {
+    const relativePath = resolveSharePath(requestedPath);
+    if (relativePath === null) {
+        return null;
+    }
+
+    const insideSharedRoot = sharedItem.paths.some((root) =>
+        relativePath === root || relativePath.startsWith(root + path.sep)
+    );
+
+    return insideSharedRoot ? relativePath : null;
+};
+
+// Count a download, unless concurrent requests already used up the limit
+const claimDownload = async (sharedItem: ISharedItem) => {
+    const updated = await SharedItem.findOneAndUpdate(
+        {
+            _id: sharedItem._id,
+            $or: [{ maxDownloads: null }, { $expr: { $lt: ['$downloadCount', '$maxDownloads'] } }],
+        },
+        { $inc: { downloadCount: 1 } }
+    );
+    return !!updated;
+};
+
+// Unlock a share link and get a short-lived access token
+export const unlockSharedItem = async (req: Request, res: Response) => {
+    try {
+        const { password } = req.body;
+        const { sharedItem, status, message } = await findAccessibleSharedItem(req, false);
+
+        if (!sharedItem) {
+            return res.status(status).json({ message });
+        }
+
+        if (sharedItem.passwordHash) {
+            const passwordMatch = typeof password === 'string'
+                && await bcrypt.compare(password, sharedItem.passwordHash);
+            if (!passwordMatch) {
+                return res.status(401).json({ message: 'Invalid password' });
+            }
+        }
+
+        const token = jwt.sign({ shareCode: sharedItem.code }, JWT_SECRET as string, {
+            expiresIn: SHARE_UNLOCK_TOKEN_EXPIRY,
+        });
+
+        res.json({ token, expiresIn: SHARE_UNLOCK_TOKEN_EXPIRY });
+    } catch (error) {
+        console.error('Error unlocking share link:', error);
+        res.status(500).json({ message: 'Internal server error' });
     }
+};
+
+// Access shared items via link
+export const accessSharedItems = async (req: Request, res: Response) => {
+    try {
+        trackShareAccess(req, res, { linkType: 'item', code: req.params.code, action: 'access' });
+        const { sharedItem, status, message } = await findAccessibleSharedItem(req);
 
-    res.json({ items: sharedItem.paths });
+        if (!sharedItem) {
+            return res.status(status).json({ message });
+        }
+
+        res.json({
+            items: sharedItem.paths,
+            expiresAt: sharedItem.expiresAt,
+            remainingDownloads: sharedItem.maxDownloads
+                ? sharedItem.maxDownloads - sharedItem.downloadCount
+                : null,
+            // File-request mode, recipients only learn the limits, not where uploads end up
+            upload: sharedItem.uploadFolder !== undefined
+                ? {
+                    remainingFiles: sharedItem.uploadMaxFiles
+                        ? Math.max(sharedItem.uploadMaxFiles - sharedItem.uploadedFiles, 0)
+                        : null,
+                    remainingSize: sharedItem.uploadMaxTotalSize
+                        ? Math.max(sharedItem.uploadMaxTotalSize - sharedItem.uploadedSize, 0)
+                        : null,
+                    allowedMimeTypes: sharedItem.uploadAllowedMimeTypes,
+                }
+                : null,
+        });
+    } catch (error) {
+        console.error('Error accessing shared items:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+};
+
+// Browse the shared roots, or a folder inside them
+export const listSharedFolder = async (req: Request, res: Response) => {
+    try {
+        const { path: requestedPath } = req.query;
+        trackShareAccess(req, res, {
+            linkType: 'item',
+            code: req.params.code,
+            action: 'list',
+            filePath: typeof requestedPath === 'string' ? requestedPath : undefined,
+        });
+
+        const { sharedItem, status, message } = await findAccessibleSharedItem(req);
+
+        if (!sharedItem) {
+            return res.status(status).json({ message });
+        }
+
+        const describe = (stats: StorageStats) => ({
+            name: stats.name,
+            type: stats.isDirectory ? 'folder' : 'file',
+            path: stats.path,
+            size: stats.isDirectory ? null : stats.size,
+            modifiedAt: stats.modifiedAt,
+        });
+
+        // Without a path, list the shared roots themselves
+        if (!requestedPath) {
+            const roots: StorageStats[] = [];
+            for (const root of sharedItem.paths) {
+                const stats = await share.stat(root);
+                if (stats) {
+                    roots.push(stats);
+                }
+            }
+            return res.json({ path: '', items: roots.map(describe) });
+        }
+
+        if (typeof requestedPath !== 'string') {
+            return res.status(400).json({ message: 'Invalid path' });
+        }
+
+        const folderPath = resolveSharedPath(sharedItem, requestedPath);
+        if (folderPath === null) {
+            return res.status(403).json({ message: 'Access denied to this path' });
+        }
+        const stats = await share.stat(folderPath);
+        if (!stats) {
+            return res.status(404).json({ message: 'Folder not found' });
+        }
+        if (!stats.isDirectory) {
+            return res.status(400).json({ message: 'Path is not a folder' });
+        }
+
+        const items = await share.list(folderPath);
+
+        res.json({ path: folderPath, items: items.map(describe) });
+    } catch (error) {
+        console.error('Error listing shared folder:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
 };
 
 // Get changelog
@@ -262,19 +586,22 @@ export const getChangeLog = async (req: Request, res: Response) => {
 // List files and folders
 export const listItems = async (req: Request, res: Response) => {
     try {
-        const { path: requestedPath } = req.query;
-        const basePath = path.join(__dirname, '../share');
+        const targetPath = resolveSharePath(req.query.path || '', true);
 
-        const targetPath = requestedPath ? path.join(basePath, requestedPath as string) : basePath;
+        // Prevent directory traversal
+        if (targetPath === null) {
+            return res.status(400).json({ message: 'Invalid path' });
+        }
 
-        if (!fs.existsSync(targetPath)) {
+        const stats = await share.stat(targetPath);
+        if (!stats || !stats.isDirectory) {
             return res.status(404).json({ message: 'Directory not found' });
         }
 
-        const items = fs.readdirSync(targetPath, { withFileTypes: true }).map((item) => ({
+        const items = (await share.list(targetPath)).map((item) => ({
             name: item.name,
-            type: item.isDirectory() ? 'folder' : 'file',
-            path: path.relative(basePath, path.join(targetPath, item.name)),
+            type: item.isDirectory ? 'folder' : 'file',
+            path: item.path,
         }));
 
         res.json(items);
@@ -287,76 +614,96 @@ export const listItems = async (req: Request, res: Response) => {
 
 // Download a shared item (file)
 export const downloadSharedItem = async (req: Request, res: Response) => {
-    const { code } = req.params;
     const { path: filePath } = req.query;
+    const served = trackShareAccess(req, res, {
+        linkType: 'item',
+        code: req.params.code,
+        action: 'download',
+        filePath: typeof filePath === 'string' ? filePath : undefined,
+    });
 
-    const sharedItem = await SharedItem.findOne({ code });
+    const { sharedItem, status, message } = await findAccessibleSharedItem(req);
 
     if (!sharedItem) {
-        return res.status(404).json({ message: 'Share link not found or expired' });
+        return res.status(status).json({ message });
     }
 
     if (!filePath || typeof filePath !== 'string') {
         return res.status(400).json({ message: 'Invalid file path' });
     }
 
-    if (!sharedItem.paths.includes(filePath)) {
+    const sharedPath = resolveSharedPath(sharedItem, filePath);
+
+    if (sharedPath === null) {
         return res.status(403).json({ message: 'Access denied to this file' });
     }
 
-    const basePath = path.join(__dirname, '../share');
-    const fullPath = path.join(basePath, filePath);
-
-    if (!fs.existsSync(fullPath)) {
+    const stats = await share.stat(sharedPath);
+    if (!stats || !stats.isFile) {
         return res.status(404).json({ message: 'File not found' });
     }
 
-    res.download(fullPath, path.basename(fullPath), (err) => {
-        if (err) {
+    if (!(await claimDownload(sharedItem))) {
+        return res.status(410).json({ message: 'Shared link has reached its download limit' });
+    }
+
+    served.bytes = stats.size;
+    try {
+        const sha256 = await getFileChecksum('share', sharedPath);
+        await sendStoredFile(res, share, sharedPath, { download: true, sha256 });
+    } catch (err) {
+        console.error('Error downloading shared file:', err);
+        if (!res.headersSent) {
             res.status(500).json({ message: 'Internal server error' });
         }
-    });
+    }
 };
 
-// Download all shared items as a zip
+// Download all shared items, or a single shared subfolder (?path=), as a zip
 export const downloadAllSharedItems = async (req: Request, res: Response) => {
-    const { code } = req.params;
+    const { path: folderPath } = req.query;
+    const served = trackShareAccess(req, res, {
+        linkType: 'item',
+        code: req.params.code,
+        action: 'download-all',
+        filePath: typeof folderPath === 'string' ? folderPath : undefined,
+    });
 
-    const sharedItem = await SharedItem.findOne({ code });
+    const { sharedItem, status, message } = await findAccessibleSharedItem(req);
 
     if (!sharedItem) {
-        return res.status(404).json({ message: 'Share link not found or expired' });
+        return res.status(status).json({ message });
     }
 
-    const basePath = path.join(__dirname, '../share');
+    let sharedFolderPath: string | null = null;
+    if (folderPath) {
+        if (typeof folderPath !== 'string') {
+            return res.status(400).json({ message: 'Invalid folder path' });
+        }
+        sharedFolderPath = resolveSharedPath(sharedItem, folderPath);
+        if (sharedFolderPath === null) {
+            return res.status(403).json({ message: 'Access denied to this folder' });
+        }
+        const stats = await share.stat(sharedFolderPath);
+        if (!stats || !stats.isDirectory) {
+            return res.status(404).json({ message: 'Folder not found' });
+        }
+    }
+
+    if (!(await claimDownload(sharedItem))) {
+        return res.status(410).json({ message: 'Shared link has reached its download limit' });
+    }
 
     // Create an instance of archiver
     const archive = archiver('zip', { zlib: { level: 9 } });
 
     // Set the response headers for downloading the zip file
-    res.attachment('shared_files.zip');
-
-    // Pipe archive data to the response
-    archive.pipe(res);
+    res.attachment(sharedFolderPath !== null ? `${path.basename(sharedFolderPath)}.zip` : 'shared_files.zip');
 
-    // Iterate over the shared item paths and add them to the archive
-    for (const itemPath of sharedItem.paths) {
-        const fullPath = path.join(basePath, itemPath);
-
-        if (fs.existsSync(fullPath)) {
-            const stats = fs.statSync(fullPath);
-
-            if (stats.isFile()) {
-                // Add a file to the archive
-                archive.file(fullPath, { name: path.relative(basePath, fullPath) });
-            } else if (stats.isDirectory()) {
-                // Add a directory to the archive
-                archive.directory(fullPath, path.relative(basePath, fullPath));
-            }
-        } else {
-            console.warn(`Path not found: ${fullPath}`);
-        }
-    }
+    // Bytes actually written once the archive is complete
+    archive.on('end', () => {
+        served.bytes = archive.pointer();
+    });
 
     // Listen for errors and respond appropriately
     archive.on('error', (err) => {
@@ -364,33 +711,46 @@ export const downloadAllSharedItems = async (req: Request, res: Response) => {
         res.status(500).send({ message: 'Error creating archive' });
     });
 
-    // Finalize the archive
-    archive.finalize().catch((err) => {
+    // Pipe archive data to the response
+    archive.pipe(res);
+
+    try {
+        // Iterate over the shared item paths (or just the requested folder) and add them to the archive
+        const itemPaths = sharedFolderPath !== null ? [sharedFolderPath] : sharedItem.paths;
+        for (const itemPath of itemPaths) {
+            if (!(await addToArchive(archive, share, itemPath, itemPath))) {
+                console.warn(`Path not found: ${itemPath}`);
+            }
+        }
+
+        // Finalize the archive
+        await archive.finalize();
+    } catch (err) {
         console.error('Error finalizing archive:', err);
-        res.status(500).send({ message: 'Error finalizing archive' });
-    });
+        archive.abort();
+        res.end();
+    }
 };
 
 
 export const previewFile = async (req: Request, res: Response) => {
     try {
         // The captured file path from the URL
-        const { filePath } = req.params;
-        // Construct the absolute path to the file on your server
-        const basePath = path.join(__dirname, '../share');
-        const fullPath = path.join(basePath, filePath);
+        const filePath = resolveSharePath(req.params.filePath);
 
-        if (!fs.existsSync(fullPath)) {
-            return res.status(404).json({ message: 'File not found' });
+        // Prevent directory traversal
+        if (filePath === null) {
+            return res.status(400).json({ message: 'Invalid path' });
         }
 
-        // Optionally, set appropriate content-type if you want:
-        // e.g., image/png, video/mp4, etc. For a quick approach:
-        // res.sendFile does set headers automatically if Node can detect the file type
-        // or if the OS path library can guess from extension.
-        return res.sendFile(fullPath);
+        // Content type is guessed from the extension
+        if (!(await sendStoredFile(res, share, filePath))) {
+            return res.status(404).json({ message: 'File not found' });
+        }
     } catch (error) {
         console.error('previewFile error:', error);
-        return res.status(500).json({ message: 'Error fetching file' });
+        if (!res.headersSent) {
+            return res.status(500).json({ message: 'Error fetching file' });
+        }
     }
 };
@@ -1,42 +1,102 @@
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import path from 'path';
 import fs from 'fs';
 import multer from 'multer';
 import { v4 as uuidv4 } from 'uuid';
 import mime from 'mime-types';
 import { promisify } from 'util';
+import { Readable, Transform } from 'stream';
 import { LRUCache } from 'lru-cache';
-import FileActivity from '../models/FileActivity';
+import archiver from 'archiver';
+import FileActivity, { IFileActivity } from '../models/FileActivity';
 import SharedFile from '../models/SharedFile';
 import FavoriteItem from '../models/FavoriteItem'; // Import FavoriteItem model
+import TrashItem from '../models/TrashItem';
+import User from '../models/User';
+import FolderAcl, { FolderPermission, IFolderAclEntry } from '../models/FolderAcl';
+import {
+    DOWNLOAD_CACHE_MAX_SIZE,
+    DOWNLOAD_CACHE_MAX_FILE_SIZE,
+    VERSION_RETENTION_KEEP_LAST,
+    VERSION_RETENTION_MAX_AGE_DAYS,
+    TRASH_RETENTION_DAYS,
+    STORAGE_DEDUP_ENABLED,
+    ZIP_DEFAULT_COMPRESSION_LEVEL,
+} from '../config/config';
+import {
+    recordFile,
+    moveFileRecords,
+    removeFileRecords,
+    checkQuota,
+    getUserQuota,
+    getUserUsage,
+    getFileHash,
+    getFileChecksum,
+} from '../utils/storageUsage';
+import { storeAsBlob, linkBlob, buildDedupReport } from '../utils/blobStore';
+import { trackShareAccess, buildShareStats } from '../utils/shareAnalytics';
+import { getStorageDriver, StorageStats } from '../drivers';
+import { resolveSafePath, safeFileName } from '../utils/safePath';
+import { sendStoredFile, readStoredFile, addToArchive, digestHeader } from '../utils/storedFiles';
+import {
+    hasPermission,
+    isFolderPermission,
+    getPermission,
+    getSubtreePermission,
+    getPermissionResolver,
+    getTrashedPermission,
+    resolveTrashedPermission,
+    loadFolderAcls,
+    pathAndAncestors,
+    resolvePermission,
+    moveFolderAcls,
+    removeFolderAcls,
+} from '../utils/folderAcl';
 
 const pipeline = promisify(require('stream').pipeline);
 
-// Set up multer storage configuration
+// Set up multer storage configuration. Paths are validated against storageDir,
+// which also holds the local upload staging folders; contents go through the driver.
 const storageDir = path.join(__dirname, '../storage');
+const store = getStorageDriver('storage');
 
 // Ensure the storage directory exists
 if (!fs.existsSync(storageDir)) {
     fs.mkdirSync(storageDir, { recursive: true });
 }
 
+// Hard-link deduplication only works on local disk
+const dedupEnabled = STORAGE_DEDUP_ENABLED && store.type === 'local';
+
+// Fields listings and search return for a file or folder
+const describeItem = (stats: StorageStats) => ({
+    name: stats.name,
+    path: stats.path,
+    isFile: stats.isFile,
+    isFolder: stats.isDirectory,
+    size: stats.size,
+    modifiedAt: stats.modifiedAt,
+    createdAt: stats.createdAt,
+    mimeType: stats.isFile ? mime.lookup(stats.name) || 'application/octet-stream' : null,
+});
+
 const ensureDirectory = (dir: string) => {
     if (!fs.existsSync(dir)) {
         fs.mkdirSync(dir, { recursive: true });
     }
 };
 
-// Configure multer for file uploads
+// Configure multer for file uploads. Files land in .temp first so that
+// uploadFiles can version the file they replace before moving them into place.
 const storage = multer.diskStorage({
     destination: (req, file, cb) => {
-        // Access folderPath from req.query
-        const folderPath = sanitizePath(req.query.folderPath as string || '');
-        const dest = path.join(storageDir, folderPath);
+        const dest = path.join(storageDir, '.temp', 'uploads');
         ensureDirectory(dest);
         cb(null, dest);
     },
     filename: (req, file, cb) => {
-        cb(null, file.originalname);
+        cb(null, uuidv4());
     },
 });
 
@@ -49,21 +109,84 @@ export const upload = multer({
     },
 });
 
-// Implement caching strategies using LRU cache
+// Implement caching strategies using LRU cache (small hot files only, large ones are streamed)
 const cache = new LRUCache<string, Buffer>({
-    maxSize: 500 * 1024 * 1024, // Max cache size in bytes (500MB)
+    maxSize: DOWNLOAD_CACHE_MAX_SIZE, // Max cache size in bytes
     sizeCalculation: (value, key) => value.length,
     ttl: 1000 * 60 * 5, // Time-to-live in milliseconds
 });
 
-// Helper function for sanitizing paths
-const sanitizePath = (inputPath: string): string => {
-    return path.normalize(inputPath).replace(/^(\.\.(\/|\\|$))+/, '').replace(/^\/+/, '');
+// Folders at the root of storageDir that are internal, clients never address them directly
+const INTERNAL_FOLDERS = new Set(['.trash', '.versions', '.temp', '.blobs']);
+
+// Client path relative to storageDir, or null when it could point outside of it or into an internal folder.
+// Versions and trashed items are reached through their original path instead.
+const resolveStoragePath = (inputPath: unknown, allowRoot = false) => {
+    const resolved = resolveSafePath(storageDir, inputPath, { allowRoot, checkSymlinks: store.type === 'local' });
+    return resolved === null || INTERNAL_FOLDERS.has(resolved.split(path.sep)[0]) ? null : resolved;
+};
+
+// Error for a single storage operation, carries the status to respond with
+const operationError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+// Whether the user has `required` on an item, with `wholeTree` also on every folder below it
+const can = async (user: any, itemPath: string, required: FolderPermission, wholeTree = false) =>
+    hasPermission(
+        wholeTree ? await getSubtreePermission(user, itemPath) : await getPermission(user, itemPath),
+        required
+    );
+
+// Same check for operations that report failures by throwing
+const requirePermission = async (user: any, itemPath: string, required: FolderPermission, wholeTree = false) => {
+    if (!(await can(user, itemPath, required, wholeTree))) {
+        throw operationError(403, 'Forbidden: Access denied');
+    }
+};
+
+// Items without a time (folders on S3) sort first
+const getTime = (date: Date | null) => (date ? date.getTime() : 0);
+
+// Sort results and cut out the requested page
+const sortAndPaginate = (
+    results: any[],
+    sortBy: string,
+    sortOrder: string,
+    page: number,
+    pageSize: number
+) => {
+    results.sort((a, b) => {
+        let compare = 0;
+        if (sortBy === 'name') {
+            compare = a.name.localeCompare(b.name);
+        } else if (sortBy === 'size') {
+            compare = a.size - b.size;
+        } else if (sortBy === 'modifiedAt') {
+            compare = getTime(a.modifiedAt) - getTime(b.modifiedAt);
+        } else if (sortBy === 'createdAt') {
+            compare = getTime(a.createdAt) - getTime(b.createdAt);
+        } else if (sortBy === 'path') {
+            compare = a.path.localeCompare(b.path);
+        }
+
+        return sortOrder === 'asc' ? compare : -compare;
+    });
+
+    const totalItems = results.length;
+    const totalPages = Math.ceil(totalItems / pageSize);
+    const paginatedResults = results.slice((page - 1) * pageSize, page * pageSize);
+
+    return {
+        items: paginatedResults,
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+    };
 };
 
 // List files and folders with search, filter, sort, and pagination
 export const listItems = async (req: Request, res: Response) => {
-    const folderPath = sanitizePath((req.query.path as string) || '');
+    const folderPath = resolveStoragePath(req.query.path || '', true);
     const searchQuery = (req.query.search as string) || '';
     const sortBy = (req.query.sortBy as string) || 'name';
     const sortOrder = (req.query.sortOrder as string) || 'asc';
@@ -75,52 +198,42 @@ export const listItems = async (req: Request, res: Response) => {
     if (folderPath === '.favorite') {
         // Get favorite items for the user
         const favoriteItems = await FavoriteItem.find({ userId: req.user._id }).select('path').lean();
+        const permissionOf = await getPermissionResolver(req.user);
 
         for (const favItem of favoriteItems) {
-            const itemFullPath = path.join(storageDir, favItem.path);
+            const permission = permissionOf(favItem.path);
+            if (!hasPermission(permission, 'read')) {
+                continue;
+            }
             try {
-                const stats = fs.statSync(itemFullPath);
-                const itemName = path.basename(favItem.path);
-                results.push({
-                    name: itemName,
-                    path: favItem.path,
-                    isFile: stats.isFile(),
-                    isFolder: stats.isDirectory(),
-                    size: stats.size,
-                    modifiedAt: stats.mtime,
-                    createdAt: stats.birthtime,
-                    mimeType: stats.isFile() ? mime.lookup(itemName) || 'application/octet-stream' : null,
-                    isFavorite: true,
-                });
+                const stats = await store.stat(favItem.path);
+                if (!stats) {
+                    throw new Error(`Favorite item not found: ${favItem.path}`);
+                }
+                results.push({ ...describeItem(stats), isFavorite: true, permission });
             } catch (error) {
                 console.error('Error accessing favorite item:', error);
             }
         }
     } else {
-        const fullPath = path.join(storageDir, folderPath);
-
         // Prevent directory traversal
-        if (!fullPath.startsWith(storageDir)) {
+        if (folderPath === null) {
             return res.status(400).json({ message: 'Invalid path' });
         }
 
         try {
-            const items = fs.readdirSync(fullPath, { withFileTypes: true });
+            const permissionOf = await getPermissionResolver(req.user);
+            if (!hasPermission(permissionOf(folderPath), 'read')) {
+                return res.status(403).json({ message: 'Forbidden: Access denied' });
+            }
 
-            results = items.map((item) => {
-                const itemPath = path.join(folderPath, item.name);
-                const stats = fs.statSync(path.join(fullPath, item.name));
-                return {
-                    name: item.name,
-                    path: itemPath,
-                    isFile: item.isFile(),
-                    isFolder: item.isDirectory(),
-                    size: stats.size,
-                    modifiedAt: stats.mtime,
-                    createdAt: stats.birthtime,
-                    mimeType: item.isFile() ? mime.lookup(item.name) || 'application/octet-stream' : null,
-                };
-            });
+            const items = await store.list(folderPath);
+
+            // Items the user may not read are left out, the others tell what the user can do with them
+            results = items
+                .filter((stats) => folderPath || !INTERNAL_FOLDERS.has(stats.name))
+                .map((stats) => ({ ...describeItem(stats), permission: permissionOf(stats.path) }))
+                .filter((item) => hasPermission(item.permission, 'read'));
 
             // Get list of favorite paths for the current user
             const favoriteItems = await FavoriteItem.find({ userId: req.user._id }).select('path').lean();
@@ -146,40 +259,188 @@ export const listItems = async (req: Request, res: Response) => {
         );
     }
 
-    // Sort results
-    results.sort((a, b) => {
-        let compare = 0;
-        if (sortBy === 'name') {
-            compare = a.name.localeCompare(b.name);
-        } else if (sortBy === 'size') {
-            compare = a.size - b.size;
-        } else if (sortBy === 'modifiedAt') {
-            compare = new Date(a.modifiedAt).getTime() - new Date(b.modifiedAt).getTime();
-        } else if (sortBy === 'createdAt') {
-            compare = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+    res.json(sortAndPaginate(results, sortBy, sortOrder, page, pageSize));
+};
+
+// Convert a glob such as "*.pdf" or "report-??.docx" into a case-insensitive RegExp
+const globToRegExp = (glob: string): RegExp => {
+    const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*+/g, '*');
+    return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+};
+
+// Search patterns come from clients and run against every name in storage, so they are kept short
+// and may repeat only a few parts without limit (each one multiplies the backtracking work)
+const MAX_NAME_PATTERN_LENGTH = 100;
+const MAX_NAME_PATTERN_WILDCARDS = 4;
+
+// Whether a client regex can backtrack catastrophically: backreferences, too many unbounded
+// quantifiers, or a repeated group that contains a quantifier or an alternation, like (a+)+ or (a|aa)*
+const isUnsafeRegExp = (source: string) => {
+    const groups: boolean[] = []; // Per open group, whether it contains a quantifier or "|"
+    let closedRiskyGroup = false;
+    let unbounded = 0;
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        const rest = source.slice(i);
+        const isQuantifier = char === '*' || char === '+' || char === '?' || /^\{\d/.test(rest);
+
+        if (char === '\\') {
+            if (/[1-9k]/.test(source[i + 1] || '')) {
+                return true;
+            }
+            i++;
+        } else if (char === '[') {
+            // Quantifier characters inside a character class are literal
+            for (i++; i < source.length && source[i] !== ']'; i++) {
+                if (source[i] === '\\') {
+                    i++;
+                }
+            }
+        } else if (char === '(') {
+            groups.push(false);
+            // Skip the "?:", "?=", "?<name>" ... after the parenthesis, it is not a quantifier
+            i += (/^\((\?(?:[:=!]|<[=!]|<[A-Za-z_]\w*>))?/.exec(rest) as RegExpExecArray)[0].length - 1;
+        } else if (char === ')') {
+            closedRiskyGroup = groups.pop() || false;
+            if (closedRiskyGroup && groups.length > 0) {
+                groups[groups.length - 1] = true;
+            }
+            continue;
+        } else if (char === '|' || isQuantifier) {
+            if (isQuantifier && char !== '?' && closedRiskyGroup) {
+                return true;
+            }
+            if (char === '*' || char === '+' || /^\{\d+,\}/.test(rest)) {
+                unbounded++;
+            }
+            if (groups.length > 0) {
+                groups[groups.length - 1] = true;
+            }
         }
+        closedRiskyGroup = false;
+    }
+    return unbounded > MAX_NAME_PATTERN_WILDCARDS;
+};
 
-        return sortOrder === 'asc' ? compare : -compare;
-    });
+// Recursively collect every file and folder below a directory
+const walkStorage = async (relativeDir: string, results: StorageStats[]) => {
+    const items = await store.list(relativeDir);
 
-    // Pagination
-    const totalItems = results.length;
-    const totalPages = Math.ceil(totalItems / pageSize);
-    const paginatedResults = results.slice((page - 1) * pageSize, page * pageSize);
+    for (const item of items) {
+        if (!relativeDir && INTERNAL_FOLDERS.has(item.name)) {
+            continue;
+        }
 
-    res.json({
-        items: paginatedResults,
-        page,
-        pageSize,
-        totalItems,
-        totalPages,
-    });
+        results.push(item);
+        if (item.isDirectory) {
+            try {
+                await walkStorage(item.path, results);
+            } catch (error) {
+                console.error('Error accessing item during search:', error);
+            }
+        }
+    }
+};
+
+// Search the whole storage tree with name, type, size, date and favorite filters
+export const searchItems = async (req: Request, res: Response) => {
+    const rootPath = resolveStoragePath(req.query.path || '', true);
+    const name = req.query.name as string | undefined;
+    const regex = req.query.regex as string | undefined;
+    const mimeType = req.query.mimeType as string | undefined;
+    const minSize = req.query.minSize !== undefined ? Number(req.query.minSize) : undefined;
+    const maxSize = req.query.maxSize !== undefined ? Number(req.query.maxSize) : undefined;
+    const modifiedAfter = req.query.modifiedAfter ? new Date(req.query.modifiedAfter as string) : undefined;
+    const modifiedBefore = req.query.modifiedBefore ? new Date(req.query.modifiedBefore as string) : undefined;
+    const favorite = req.query.favorite as string | undefined;
+    const sortBy = (req.query.sortBy as string) || 'name';
+    const sortOrder = (req.query.sortOrder as string) || 'asc';
+    const page = parseInt(req.query.page as string) || 1;
+    const pageSize = parseInt(req.query.pageSize as string) || 50;
+
+    // Prevent directory traversal
+    if (rootPath === null) {
+        return res.status(400).json({ message: 'Invalid path' });
+    }
+
+    if (
+        (minSize !== undefined && isNaN(minSize)) ||
+        (maxSize !== undefined && isNaN(maxSize)) ||
+        (modifiedAfter && isNaN(modifiedAfter.getTime())) ||
+        (modifiedBefore && isNaN(modifiedBefore.getTime()))
+    ) {
+        return res.status(400).json({ message: 'Invalid size or date filter' });
+    }
+
+    if ((regex && regex.length > MAX_NAME_PATTERN_LENGTH) || (name && name.length > MAX_NAME_PATTERN_LENGTH)) {
+        return res.status(400).json({ message: `Search pattern is longer than ${MAX_NAME_PATTERN_LENGTH} characters` });
+    }
+    if (
+        (regex && isUnsafeRegExp(regex)) ||
+        (!regex && name && (name.match(/\*+/g) || []).length > MAX_NAME_PATTERN_WILDCARDS)
+    ) {
+        return res.status(400).json({ message: 'Search pattern is too complex' });
+    }
+
+    let namePattern: RegExp | undefined;
+    try {
+        if (regex) {
+            namePattern = new RegExp(regex, 'i');
+        } else if (name) {
+            namePattern = globToRegExp(name);
+        }
+    } catch (error) {
+        return res.status(400).json({ message: 'Invalid regular expression' });
+    }
+
+    try {
+        const permissionOf = await getPermissionResolver(req.user);
+        if (!hasPermission(permissionOf(rootPath), 'read')) {
+            return res.status(403).json({ message: 'Forbidden: Access denied' });
+        }
+
+        const entries: StorageStats[] = [];
+        await walkStorage(rootPath, entries);
+
+        const favoriteItems = await FavoriteItem.find({ userId: req.user._id }).select('path').lean();
+        const favoritePaths = new Set(favoriteItems.map((item) => item.path));
+
+        const results = entries
+            .filter((stats) => hasPermission(permissionOf(stats.path), 'read'))
+            .map((stats) => ({ ...describeItem(stats), isFavorite: favoritePaths.has(stats.path) }))
+            .filter((item) => {
+                if (namePattern && !namePattern.test(item.name)) return false;
+                if (mimeType) {
+                    if (!item.mimeType) return false;
+                    if (mimeType.endsWith('/*')
+                        ? !item.mimeType.startsWith(mimeType.slice(0, -1))
+                        : item.mimeType !== mimeType) return false;
+                }
+                if (minSize !== undefined && item.size < minSize) return false;
+                if (maxSize !== undefined && item.size > maxSize) return false;
+                // Folders without a time (S3) can't match a date filter
+                if (modifiedAfter && (!item.modifiedAt || item.modifiedAt < modifiedAfter)) return false;
+                if (modifiedBefore && (!item.modifiedAt || item.modifiedAt > modifiedBefore)) return false;
+                if (favorite !== undefined && item.isFavorite !== (favorite === 'true')) return false;
+                return true;
+            });
+
+        res.json(sortAndPaginate(results, sortBy, sortOrder, page, pageSize));
+    } catch (error) {
+        console.error('Error searching storage:', error);
+        res.status(500).json({ message: 'Error searching storage' });
+    }
 };
 
 // Add item to favorites
 export const addFavorite = async (req: Request, res: Response) => {
     const { itemPath } = req.body;
-    const sanitizedItemPath = sanitizePath(itemPath);
+    const sanitizedItemPath = resolveStoragePath(itemPath);
+
+    if (sanitizedItemPath === null) {
+        return res.status(400).json({ message: 'Invalid path' });
+    }
 
     try {
         await FavoriteItem.updateOne(
@@ -198,7 +459,11 @@ export const addFavorite = async (req: Request, res: Response) => {
 // Remove item from favorites
 export const removeFavorite = async (req: Request, res: Response) => {
     const { itemPath } = req.body;
-    const sanitizedItemPath = sanitizePath(itemPath);
+    const sanitizedItemPath = resolveStoragePath(itemPath);
+
+    if (sanitizedItemPath === null) {
+        return res.status(400).json({ message: 'Invalid path' });
+    }
 
     try {
         await FavoriteItem.deleteOne({ userId: req.user._id, path: sanitizedItemPath });
@@ -215,26 +480,29 @@ export const createFolder = (req: Request, res: Response) => {
     const { folderName, parentPath } = req.body;
 
     // Validate folder name
-    if (!/^[^<>:"/\\|?*]+$/.test(folderName)) {
+    if (!safeFileName(folderName) || !/^[^<>:"/\\|?*]+$/.test(folderName)) {
         return res.status(400).json({ message: 'Invalid folder name' });
     }
 
-    const sanitizedParentPath = sanitizePath(parentPath || '');
-    const newFolderPath = path.join(storageDir, sanitizedParentPath, folderName);
+    const sanitizedParentPath = resolveStoragePath(parentPath || '', true);
 
     // Prevent directory traversal
-    if (!newFolderPath.startsWith(storageDir)) {
+    if (sanitizedParentPath === null) {
         return res.status(400).json({ message: 'Invalid path' });
     }
 
-    fs.mkdir(newFolderPath, { recursive: true }, (err) => {
-        if (err) {
+    can(req.user, sanitizedParentPath, 'write')
+        .then(async (allowed) => {
+            if (!allowed) {
+                return res.status(403).json({ message: 'Forbidden: Access denied' });
+            }
+            await store.mkdir(path.join(sanitizedParentPath, folderName));
+            res.status(201).json({ message: 'Folder created successfully' });
+        })
+        .catch((err) => {
             console.error('Error creating folder:', err);
-            return res.status(500).json({ message: 'Error creating folder' });
-        }
-
-        res.status(201).json({ message: 'Folder created successfully' });
-    });
+            res.status(500).json({ message: 'Error creating folder' });
+        });
 };
 
 
@@ -243,24 +511,23 @@ export const renameItem = (req: Request, res: Response) => {
     const { oldPath, newName } = req.body;
 
     // Validate new name
-    if (!/^[^<>:"/\\|?*]+$/.test(newName)) {
+    if (!safeFileName(newName) || !/^[^<>:"/\\|?*]+$/.test(newName)) {
         return res.status(400).json({ message: 'Invalid name' });
     }
 
-    const sanitizedOldPath = sanitizePath(oldPath);
-    const oldFullPath = path.join(storageDir, sanitizedOldPath);
-    const newFullPath = path.join(path.dirname(oldFullPath), newName);
+    const sanitizedOldPath = resolveStoragePath(oldPath);
 
     // Prevent directory traversal
-    if (!oldFullPath.startsWith(storageDir) || !newFullPath.startsWith(storageDir)) {
+    if (sanitizedOldPath === null) {
         return res.status(400).json({ message: 'Invalid path' });
     }
 
-    fs.rename(oldFullPath, newFullPath, async (err) => {
-        if (err) {
-            console.error('Error renaming item:', err);
-            return res.status(500).json({ message: 'Error renaming item' });
-        }
+    const newPath = path.join(path.dirname(sanitizedOldPath), newName);
+
+    requirePermission(req.user, sanitizedOldPath, 'write', true).then(async () => {
+        await store.rename(sanitizedOldPath, newPath);
+        await moveFileRecords('storage', sanitizedOldPath, newPath);
+        await moveFolderAcls(sanitizedOldPath, newPath);
 
         // Log the rename activity
         await FileActivity.create({
@@ -273,346 +540,1233 @@ export const renameItem = (req: Request, res: Response) => {
         });
 
         res.json({ message: 'Item renamed successfully' });
+    }).catch((err) => {
+        console.error('Error renaming item:', err);
+        res.status(err.status || 500).json({ message: err.status ? err.message : 'Error renaming item' });
     });
 };
 
-// Move a file or folder
-export const moveItem = (req: Request, res: Response) => {
-    const { sourcePath, destinationPath } = req.body;
-
-    const sanitizedSourcePath = sanitizePath(sourcePath);
-    const sanitizedDestinationPath = sanitizePath(destinationPath);
-
-    const fullSourcePath = path.join(storageDir, sanitizedSourcePath);
-    const fullDestinationPath = path.join(storageDir, sanitizedDestinationPath);
+// A change that was applied to the tree and can still be undone
+interface StorageChange {
+    activity?: { action: IFileActivity['action']; filePath: string };
+    undo: () => Promise<void>;
+    finalize?: () => Promise<void>; // Irreversible part, only run once the change is kept
+}
 
-    // Prevent directory traversal
-    if (
-        !fullSourcePath.startsWith(storageDir) ||
-        !fullDestinationPath.startsWith(storageDir)
-    ) {
-        return res.status(400).json({ message: 'Invalid path' });
+// Run the irreversible part of a change and log it
+const commitChange = async (user: any, change: StorageChange) => {
+    if (change.finalize) {
+        await change.finalize();
     }
-
-    fs.rename(fullSourcePath, fullDestinationPath, async (err) => {
-        if (err) {
-            console.error('Error moving item:', err);
-            return res.status(500).json({ message: 'Error moving item' });
-        }
-
-        // Log the move activity
+    if (change.activity) {
         await FileActivity.create({
-            userId: req.user._id,
-            username: req.user.username,
-            name: req.user.name,
-            surname: req.user.surname,
-            action: 'moved',
-            filePath: sanitizedSourcePath,
+            userId: user._id,
+            username: user.username,
+            name: user.name,
+            surname: user.surname,
+            action: change.activity.action,
+            filePath: change.activity.filePath,
         });
-
-        res.json({ message: 'Item moved successfully' });
-    });
+    }
 };
 
-// Delete a file or folder (move to trash)
-export const deleteItem = (req: Request, res: Response) => {
-    const { itemPath } = req.body;
-
-    const sanitizedItemPath = sanitizePath(itemPath);
-    const fullPath = path.join(storageDir, sanitizedItemPath);
-    const trashPath = path.join(storageDir, '.trash', sanitizedItemPath);
+const applyMove = async (user: any, sourcePath: string, destinationPath: string): Promise<StorageChange> => {
+    const sanitizedSourcePath = resolveStoragePath(sourcePath);
+    const sanitizedDestinationPath = resolveStoragePath(destinationPath);
 
     // Prevent directory traversal
-    if (!fullPath.startsWith(storageDir)) {
-        return res.status(400).json({ message: 'Invalid path' });
+    if (sanitizedSourcePath === null || sanitizedDestinationPath === null) {
+        throw operationError(400, 'Invalid path');
     }
 
-    // Only create .trash directory if item is not already in .trash
-    if (!sanitizedItemPath.startsWith('.trash')) {
-        fs.mkdirSync(path.dirname(trashPath), { recursive: true });
+    // Permissions first, so users can't probe for items they have no access to
+    await requirePermission(user, sanitizedSourcePath, 'write', true);
+    await requirePermission(user, path.dirname(sanitizedDestinationPath), 'write');
+    if (!(await store.stat(sanitizedSourcePath))) {
+        throw operationError(404, 'Item not found');
+    }
+    if (await store.stat(sanitizedDestinationPath)) {
+        throw operationError(409, 'Destination already exists');
     }
 
-    // Move item to trash
-    fs.rename(fullPath, trashPath, async (err) => {
-        if (err) {
-            console.error('Error moving item to trash:', err);
-            return res.status(500).json({ message: 'Error deleting item' });
-        }
-
-        // Log the delete activity
-        await FileActivity.create({
-            userId: req.user._id,
-            username: req.user.username,
-            name: req.user.name,
-            surname: req.user.surname,
-            action: 'deleted',
-            filePath: sanitizedItemPath,
-        });
-
-        res.json({ message: 'Item moved to trash successfully' });
-    });
+    await store.rename(sanitizedSourcePath, sanitizedDestinationPath);
+    await moveFileRecords('storage', sanitizedSourcePath, sanitizedDestinationPath);
+    await moveFolderAcls(sanitizedSourcePath, sanitizedDestinationPath);
+
+    return {
+        activity: { action: 'moved', filePath: sanitizedSourcePath },
+        undo: async () => {
+            await store.rename(sanitizedDestinationPath, sanitizedSourcePath);
+            await moveFileRecords('storage', sanitizedDestinationPath, sanitizedSourcePath);
+            await moveFolderAcls(sanitizedDestinationPath, sanitizedSourcePath);
+        },
+    };
 };
 
+// Deleted items are kept in .trash/<id>/<name>, so deleting the same path twice never collides
+const trashDir = path.join(storageDir, '.trash');
 
-// List items in trash
-export const listTrashItems = (req: Request, res: Response) => {
-    const trashDir = path.join(storageDir, '.trash');
-    const searchQuery = (req.query.search as string) || '';
-
-    fs.readdir(trashDir, { withFileTypes: true }, (err, items) => {
-        if (err) {
-            console.error('Error reading trash directory:', err);
-            return res.status(500).json({ message: 'Error reading trash directory' });
-        }
-
-        let results = items.map((item) => {
-            const itemPath = path.join('.trash', item.name);
-            const stats = fs.statSync(path.join(trashDir, item.name));
-            return {
-                name: item.name,
-                path: itemPath,
-                isFile: item.isFile(),
-                isFolder: item.isDirectory(),
-                size: stats.size,
-                modifiedAt: stats.mtime,
-                createdAt: stats.birthtime,
-            };
-        });
-
-        // Filter by search query
-        if (searchQuery) {
-            results = results.filter((item) =>
-                item.name.toLowerCase().includes(searchQuery.toLowerCase())
-            );
-        }
-
-        res.json({ items: results });
-    });
-};
-
-// Restore item from trash
-export const restoreItem = (req: Request, res: Response) => {
-    const { itemPath } = req.body;
+// Accepts both "<id>/<name>" and ".trash/<id>/<name>"
+const toTrashPath = (itemPath: unknown) =>
+    typeof itemPath === 'string'
+        ? resolveSafePath(trashDir, itemPath.replace(/^\.trash(\/|\\)/, ''), { checkSymlinks: store.type === 'local' })
+        : null;
 
-    const sanitizedItemPath = sanitizePath(itemPath);
-    const trashPath = path.join(storageDir, '.trash', sanitizedItemPath);
-    const restorePath = path.join(storageDir, sanitizedItemPath);
+const applyTrash = async (user: any, itemPath: string): Promise<StorageChange> => {
+    const sanitizedItemPath = resolveStoragePath(itemPath);
 
     // Prevent directory traversal
-    if (!trashPath.startsWith(path.join(storageDir, '.trash'))) {
-        return res.status(400).json({ message: 'Invalid path' });
+    if (sanitizedItemPath === null) {
+        throw operationError(400, 'Invalid path');
+    }
+    await requirePermission(user, sanitizedItemPath, 'write', true);
+    const stats = await store.stat(sanitizedItemPath);
+    if (!stats) {
+        throw operationError(404, 'Item not found');
     }
 
-    // Ensure the destination directory exists
-    fs.mkdirSync(path.dirname(restorePath), { recursive: true });
-
-    // Move item from trash back to storage
-    fs.rename(trashPath, restorePath, (err) => {
-        if (err) {
-            console.error('Error restoring item:', err);
-            return res.status(500).json({ message: 'Error restoring item' });
-        }
+    const size = await getPathSize(sanitizedItemPath);
+    const trashPath = path.join(uuidv4(), path.basename(sanitizedItemPath));
 
-        res.json({ message: 'Item restored successfully' });
+    // Move item to trash
+    await store.rename(sanitizedItemPath, path.join('.trash', trashPath));
+    await moveFileRecords('storage', sanitizedItemPath, path.join('.trash', trashPath));
+    await moveFolderAcls(sanitizedItemPath, path.join('.trash', trashPath));
+
+    const record = await TrashItem.create({
+        trashPath,
+        originalPath: sanitizedItemPath,
+        deletedBy: user._id,
+        size,
+        isFolder: stats.isDirectory,
     });
-};
 
-// Permanently delete item from trash
-export const deleteItemPermanently = (req: Request, res: Response) => {
-    const { itemPath } = req.body;
+    return {
+        activity: { action: 'deleted', filePath: sanitizedItemPath },
+        undo: async () => {
+            await store.rename(path.join('.trash', trashPath), sanitizedItemPath);
+            await removeTrashContainer(trashPath);
+            await moveFileRecords('storage', path.join('.trash', trashPath), sanitizedItemPath);
+            await moveFolderAcls(path.join('.trash', trashPath), sanitizedItemPath);
+            await TrashItem.deleteOne({ _id: record._id });
+        },
+    };
+};
 
-    const sanitizedItemPath = sanitizePath(itemPath);
-    const trashPath = path.join(storageDir, '.trash', sanitizedItemPath);
+// Items trashed before trash records existed restore to the same path they have inside .trash.
+// The user needs `required` on the item as it was before it was deleted.
+const findTrashEntry = async (user: any, itemPath: string, required: FolderPermission) => {
+    const trashPath = toTrashPath(itemPath);
 
     // Prevent directory traversal
-    if (!trashPath.startsWith(path.join(storageDir, '.trash'))) {
-        return res.status(400).json({ message: 'Invalid path' });
+    if (trashPath === null) {
+        throw operationError(400, 'Invalid path');
+    }
+    if (!(await store.stat(path.join('.trash', trashPath)))) {
+        throw operationError(404, 'Item not found in trash');
     }
 
-    fs.stat(trashPath, (err, stats) => {
-        if (err) {
-            console.error('Error accessing item:', err);
-            return res.status(500).json({ message: 'Error accessing item' });
-        }
-
-        const deleteCallback = (err: NodeJS.ErrnoException | null) => {
-            if (err) {
-                console.error('Error deleting item:', err);
-                return res.status(500).json({ message: 'Error deleting item' });
-            }
-
-            res.json({ message: 'Item permanently deleted' });
-        };
+    const record = await TrashItem.findOne({ trashPath });
+    const originalPath = record ? record.originalPath : trashPath;
+    if (!hasPermission(await getTrashedPermission(user, path.join('.trash', trashPath), originalPath), required)) {
+        throw operationError(403, 'Forbidden: Access denied');
+    }
+    return { trashPath, record, originalPath };
+};
 
-        if (stats.isDirectory()) {
-            fs.rm(trashPath, { recursive: true, force: true }, deleteCallback);
-        } else {
-            fs.unlink(trashPath, deleteCallback);
-        }
-    });
+// Empty <id> folders are left behind once their item is restored or purged
+const removeTrashContainer = async (trashPath: string) => {
+    const container = path.dirname(trashPath);
+    if (container === '.') {
+        return;
+    }
+    const items = await store.list(path.join('.trash', container)).catch(() => null);
+    if (items && items.length === 0) {
+        await store.remove(path.join('.trash', container));
+    }
 };
 
+const applyRestore = async (
+    user: any,
+    itemPath: string,
+    conflict: string = 'rename'
+): Promise<StorageChange> => {
+    if (!['rename', 'overwrite', 'fail'].includes(conflict)) {
+        throw operationError(400, 'Conflict must be one of rename, overwrite or fail');
+    }
 
-// List versions of a file
-export const listVersions = (req: Request, res: Response) => {
-    const { itemPath } = req.query;
-    const sanitizedItemPath = sanitizePath(itemPath as string);
-    const versionsDir = path.join(storageDir, '.versions', path.dirname(sanitizedItemPath));
+    const { trashPath, record, originalPath } = await findTrashEntry(user, itemPath, 'write');
+    await requirePermission(user, path.dirname(originalPath), 'write');
+    let restoredPath = originalPath;
+    let replaced: StorageChange | null = null;
 
-    fs.readdir(versionsDir, (err, files) => {
-        if (err) {
-            console.error('Error reading versions directory:', err);
-            return res.status(500).json({ message: 'Error reading versions directory' });
+    // The original location may have been taken since the item was deleted
+    if (await store.stat(restoredPath)) {
+        if (conflict === 'fail') {
+            throw operationError(409, 'An item already exists at the original location');
+        }
+        if (conflict === 'overwrite') {
+            replaced = await applyTrash(user, originalPath);
+        } else {
+            restoredPath = await getAvailablePath(restoredPath);
         }
+    }
 
-        const baseName = path.basename(sanitizedItemPath);
-        const versions = files
-            .filter((file) => file.startsWith(baseName))
-            .map((file) => {
-                return {
-                    versionName: file,
-                    path: path.join('.versions', path.dirname(sanitizedItemPath), file),
-                };
-            });
+    try {
+        // Move item from trash back to storage, the destination directory is created if needed
+        await store.rename(path.join('.trash', trashPath), restoredPath);
+        await moveFileRecords('storage', path.join('.trash', trashPath), restoredPath);
+        await moveFolderAcls(path.join('.trash', trashPath), restoredPath);
+    } catch (error) {
+        if (replaced) await replaced.undo();
+        throw error;
+    }
 
-        res.json({ versions });
-    });
+    return {
+        activity: { action: 'restored', filePath: restoredPath },
+        undo: async () => {
+            await store.rename(restoredPath, path.join('.trash', trashPath));
+            await moveFileRecords('storage', restoredPath, path.join('.trash', trashPath));
+            await moveFolderAcls(restoredPath, path.join('.trash', trashPath));
+            if (replaced) await replaced.undo();
+        },
+        finalize: async () => {
+            if (replaced) await commitChange(user, replaced);
+            if (record) await TrashItem.deleteOne({ _id: record._id });
+            await removeTrashContainer(trashPath);
+        },
+    };
 };
 
-// Download a file using streams and caching
-export const downloadFile = async (req: Request, res: Response) => {
-    const filePath = sanitizePath(req.query.path as string);
-
-    const fullPath = path.join(storageDir, filePath);
+// The item is parked in .temp until the change is kept, so the delete can still be undone
+const applyPermanentDelete = async (user: any, itemPath: string): Promise<StorageChange> => {
+    const { trashPath, record } = await findTrashEntry(user, itemPath, 'write');
+
+    const parkedPath = path.join('.temp', `delete-${uuidv4()}`);
+    await store.rename(path.join('.trash', trashPath), parkedPath);
+
+    return {
+        activity: { action: 'deleted', filePath: path.join('.trash', trashPath) },
+        undo: async () => {
+            await store.rename(parkedPath, path.join('.trash', trashPath));
+        },
+        finalize: async () => {
+            await store.remove(parkedPath);
+            await removeFileRecords('storage', path.join('.trash', trashPath));
+            await removeFolderAcls(path.join('.trash', trashPath));
+            if (record) await TrashItem.deleteOne({ _id: record._id });
+            await removeTrashContainer(trashPath);
+        },
+    };
+};
 
-    // Prevent directory traversal
-    if (!fullPath.startsWith(storageDir)) {
-        return res.status(400).json({ message: 'Invalid path' });
+// Permanently remove trash items older than the retention period
+export const purgeExpiredTrash = async () => {
+    if (!TRASH_RETENTION_DAYS) {
+        return;
     }
 
     try {
-        // Check if file is in cache
-        if (cache.has(fullPath)) {
-            console.log('Serving from cache');
-            res.setHeader('Content-Type', mime.lookup(fullPath) || 'application/octet-stream');
-            res.send(cache.get(fullPath));
-        } else {
-            const readStream = fs.createReadStream(fullPath);
-            const data: Buffer[] = [];
-
-            readStream.on('data', (chunk) => {
-                data.push(chunk);
-            });
-
-            readStream.on('end', () => {
-                const fileBuffer = Buffer.concat(data);
-                cache.set(fullPath, fileBuffer);
-                res.setHeader('Content-Type', mime.lookup(fullPath) || 'application/octet-stream');
-                res.send(fileBuffer);
-            });
+        const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 3600000);
+        const expired = await TrashItem.find({ deletedAt: { $lt: cutoff } });
+
+        for (const record of expired) {
+            await store.remove(path.join('.trash', record.trashPath));
+            await removeTrashContainer(record.trashPath);
+            await removeFileRecords('storage', path.join('.trash', record.trashPath));
+            await removeFolderAcls(path.join('.trash', record.trashPath));
+            await TrashItem.deleteOne({ _id: record._id });
+        }
 
-            readStream.on('error', (err) => {
-                console.error('Error downloading file:', err);
-                res.status(500).json({ message: 'Error downloading file' });
-            });
+        if (expired.length > 0) {
+            console.log(`Purged ${expired.length} expired trash item(s)`);
         }
     } catch (error) {
-        console.error('Error downloading file:', error);
-        res.status(500).json({ message: 'Error downloading file' });
+        console.error('Error purging trash:', error);
     }
 };
 
-// Upload files using chunked uploads
-export const uploadChunk = (req: Request, res: Response) => {
-    const { fileName, chunkIndex, totalChunks } = req.body;
-
-    const sanitizedFileName = sanitizePath(fileName);
-    const tempDir = path.join(storageDir, '.temp', sanitizedFileName);
-
-    // Ensure temp directory exists
-    fs.mkdirSync(tempDir, { recursive: true });
-
-    const chunkPath = path.join(tempDir, `chunk_${chunkIndex}`);
-
-    const writeStream = fs.createWriteStream(chunkPath);
+// Apply one change per item. In atomic mode the first failure undoes everything done so far.
+const runBatch = async (
+    req: Request,
+    res: Response,
+    items: string[],
+    apply: (itemPath: string) => Promise<StorageChange>
+) => {
+    const atomic = req.body.atomic === true;
+    const applied: { itemPath: string; change: StorageChange }[] = [];
+    const results: { path: string; success: boolean; error?: string; rolledBack?: boolean }[] = [];
+
+    for (const itemPath of items) {
+        try {
+            const change = await apply(itemPath);
+            applied.push({ itemPath, change });
+            results.push({ path: itemPath, success: true });
+        } catch (error: any) {
+            console.error(`Batch operation failed for ${itemPath}:`, error);
+            results.push({ path: itemPath, success: false, error: error.status ? error.message : 'Server error' });
+            if (atomic) {
+                break;
+            }
+        }
+    }
 
-    req.on('data', (chunk) => {
-        writeStream.write(chunk);
-    });
+    const failed = results.filter((result) => !result.success).length;
 
-    req.on('end', () => {
-        writeStream.end();
-
-        if (parseInt(chunkIndex) === parseInt(totalChunks) - 1) {
-            // Last chunk received, assemble the file
-            const filePath = path.join(storageDir, sanitizedFileName);
-            const writeStream = fs.createWriteStream(filePath);
-            let currentChunk = 0;
-
-            const appendChunk = () => {
-                const chunkPath = path.join(tempDir, `chunk_${currentChunk}`);
-                const readStream = fs.createReadStream(chunkPath);
-
-                readStream.on('end', () => {
-                    currentChunk++;
-                    if (currentChunk < totalChunks) {
-                        appendChunk();
-                    } else {
-                        writeStream.end();
-                        // Cleanup temp files
-                        fs.rmSync(tempDir, { recursive: true, force: true });
-                        res.json({ message: 'File uploaded successfully' });
+    if (atomic && failed > 0) {
+        for (const { itemPath, change } of applied.reverse()) {
+            try {
+                await change.undo();
+            } catch (error) {
+                console.error(`Error rolling back ${itemPath}:`, error);
+            }
+        }
+        return res.status(409).json({
+            message: 'Batch failed, all changes were rolled back',
+            results: items.map((itemPath, i) =>
+                results[i] && !results[i].success
+                    ? results[i]
+                    : {
+                        path: itemPath,
+                        success: false,
+                        error: results[i] ? 'Rolled back' : 'Not processed',
+                        rolledBack: !!results[i],
                     }
-                });
-
-                readStream.pipe(writeStream, { end: false });
-            };
+            ),
+        });
+    }
 
-            appendChunk();
-        } else {
-            res.json({ message: 'Chunk uploaded successfully' });
+    for (const { itemPath, change } of applied) {
+        try {
+            await commitChange(req.user, change);
+        } catch (error) {
+            console.error(`Error finalizing ${itemPath}:`, error);
         }
-    });
+    }
 
-    req.on('error', (err) => {
-        console.error('Error uploading chunk:', err);
-        res.status(500).json({ message: 'Error uploading chunk' });
+    res.status(failed > 0 ? 207 : 200).json({
+        message: failed > 0 ? `${failed} of ${items.length} items failed` : 'All items processed successfully',
+        results,
     });
 };
 
+// Validate the list of paths sent to a batch endpoint
+const getBatchPaths = (req: Request, res: Response): string[] | null => {
+    const { paths } = req.body;
+    if (!Array.isArray(paths) || paths.length === 0 || paths.some((item) => typeof item !== 'string' || !item)) {
+        res.status(400).json({ message: 'paths must be a non-empty array of strings' });
+        return null;
+    }
+    return paths;
+};
+
+// Move a file or folder
+export const moveItem = async (req: Request, res: Response) => {
+    const { sourcePath, destinationPath } = req.body;
 
-// Update filePreview function
-export const filePreview = async (req: Request, res: Response) => {
     try {
-        const filePath = sanitizePath(req.query.path as string);
-        const fullPath = path.join(storageDir, filePath);
+        const change = await applyMove(req.user, sourcePath, destinationPath);
+        await commitChange(req.user, change);
 
-        // Ensure the path is within the storage directory and the file exists
-        if (!fullPath.startsWith(storageDir) || !fs.existsSync(fullPath)) {
+        res.json({ message: 'Item moved successfully' });
+    } catch (error: any) {
+        console.error('Error moving item:', error);
+        res.status(error.status || 500).json({ message: error.status ? error.message : 'Error moving item' });
+    }
+};
+
+// Move several files or folders into one folder
+export const batchMoveItems = async (req: Request, res: Response) => {
+    const paths = getBatchPaths(req, res);
+    if (!paths) return;
+
+    const { destinationFolder } = req.body;
+    if (typeof destinationFolder !== 'string') {
+        return res.status(400).json({ message: 'destinationFolder is required' });
+    }
+
+    await runBatch(req, res, paths, (itemPath) =>
+        applyMove(req.user, itemPath, path.join(destinationFolder, path.basename(itemPath)))
+    );
+};
+
+// Total size in bytes of a file or a folder
+const getPathSize = async (itemPath: string): Promise<number> => {
+    const stats = await store.stat(itemPath);
+    if (!stats) {
+        return 0;
+    }
+    if (!stats.isDirectory) {
+        return stats.size;
+    }
+
+    let total = 0;
+    for (const item of await store.list(itemPath)) {
+        total += await getPathSize(item.path);
+    }
+    return total;
+};
+
+// First free "name (n).ext" next to an existing file or folder
+const getAvailablePath = async (itemPath: string): Promise<string> => {
+    const stats = await store.stat(itemPath);
+    const ext = stats && stats.isDirectory ? '' : path.extname(itemPath);
+    const base = itemPath.slice(0, itemPath.length - ext.length);
+
+    let candidate = itemPath;
+    for (let i = 1; await store.stat(candidate); i++) {
+        candidate = `${base} (${i})${ext}`;
+    }
+    return candidate;
+};
+
+// Recursively copy a file or folder, streaming file contents (or linking blobs when deduplicated)
+const copyRecursive = async (
+    source: string,
+    destination: string,
+    copiedFiles: { path: string; size: number; hash?: string }[]
+) => {
+    const stats = await store.stat(source);
+    if (!stats) {
+        return;
+    }
+
+    if (stats.isDirectory) {
+        await store.mkdir(destination);
+        for (const item of await store.list(source)) {
+            await copyRecursive(item.path, path.join(destination, item.name), copiedFiles);
+        }
+        return;
+    }
+
+    let hash: string | undefined;
+    if (dedupEnabled) {
+        hash = await getFileHash('storage', source);
+    }
+
+    if (hash) {
+        try {
+            await linkBlob(hash, store.localPath(destination)!);
+        } catch (error: any) {
+            // The blob was released by a concurrent delete, copy the bytes instead
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+            hash = undefined;
+        }
+    }
+    if (!hash) {
+        await pipeline(await store.createReadStream(source), store.createWriteStream(destination));
+        if (dedupEnabled) {
+            hash = await storeAsBlob(store.localPath(destination)!);
+        }
+    }
+    copiedFiles.push({ path: destination, size: stats.size, hash });
+};
+
+// Copy a file or folder
+export const copyItem = async (req: Request, res: Response) => {
+    const { sourcePath, destinationPath, conflict = 'rename' } = req.body;
+
+    if (!sourcePath || !destinationPath) {
+        return res.status(400).json({ message: 'Source and destination paths are required' });
+    }
+    if (!['rename', 'overwrite', 'fail'].includes(conflict)) {
+        return res.status(400).json({ message: 'Conflict must be one of rename, overwrite or fail' });
+    }
+
+    const sanitizedSourcePath = resolveStoragePath(sourcePath);
+    const sanitizedDestinationPath = resolveStoragePath(destinationPath);
+
+    // Prevent directory traversal
+    if (sanitizedSourcePath === null || sanitizedDestinationPath === null) {
+        return res.status(400).json({ message: 'Invalid path' });
+    }
+
+    // A folder can't be copied into itself and an item can't overwrite itself
+    if (
+        sanitizedDestinationPath.startsWith(sanitizedSourcePath + path.sep) ||
+        (sanitizedDestinationPath === sanitizedSourcePath && conflict === 'overwrite')
+    ) {
+        return res.status(400).json({ message: 'Cannot copy an item into itself' });
+    }
+
+    try {
+        if (
+            !(await can(req.user, sanitizedSourcePath, 'read', true)) ||
+            !(await can(req.user, path.dirname(sanitizedDestinationPath), 'write'))
+        ) {
+            return res.status(403).json({ message: 'Forbidden: Access denied' });
+        }
+        if (!(await store.stat(sanitizedSourcePath))) {
+            return res.status(404).json({ message: 'Item not found' });
+        }
+
+        const size = await getPathSize(sanitizedSourcePath);
+        const { allowed, quota, used } = await checkQuota(req.user, size);
+        if (!allowed) {
+            return res.status(413).json({ message: 'Storage quota exceeded', quota, used, requested: size });
+        }
+
+        let copiedPath = sanitizedDestinationPath;
+        if (await store.stat(copiedPath)) {
+            if (conflict === 'fail') {
+                return res.status(409).json({ message: 'Destination already exists' });
+            }
+            if (conflict === 'overwrite') {
+                if (!(await can(req.user, copiedPath, 'write', true))) {
+                    return res.status(403).json({ message: 'Forbidden: Access denied' });
+                }
+                await store.remove(copiedPath);
+                await removeFileRecords('storage', copiedPath);
+                await removeFolderAcls(copiedPath);
+            } else {
+                copiedPath = await getAvailablePath(copiedPath);
+            }
+        }
+
+        const copiedFiles: { path: string; size: number; hash?: string }[] = [];
+        await copyRecursive(sanitizedSourcePath, copiedPath, copiedFiles);
+
+        for (const file of copiedFiles) {
+            await recordFile('storage', file.path, req.user._id, file.size, file.hash);
+        }
+
+        // Log the copy activity
+        await FileActivity.create({
+            userId: req.user._id,
+            username: req.user.username,
+            name: req.user.name,
+            surname: req.user.surname,
+            action: 'copied',
+            filePath: copiedPath,
+        });
+
+        res.json({ message: 'Item copied successfully', path: copiedPath });
+    } catch (error) {
+        console.error('Error copying item:', error);
+        res.status(500).json({ message: 'Error copying item' });
+    }
+};
+
+// Delete a file or folder (move to trash)
+export const deleteItem = async (req: Request, res: Response) => {
+    const { itemPath } = req.body;
+
+    try {
+        const change = await applyTrash(req.user, itemPath);
+        await commitChange(req.user, change);
+
+        res.json({ message: 'Item moved to trash successfully' });
+    } catch (error: any) {
+        console.error('Error moving item to trash:', error);
+        res.status(error.status || 500).json({ message: error.status ? error.message : 'Error deleting item' });
+    }
+};
+
+// Move several files or folders to trash
+export const batchDeleteItems = async (req: Request, res: Response) => {
+    const paths = getBatchPaths(req, res);
+    if (!paths) return;
+
+    await runBatch(req, res, paths, (itemPath) => applyTrash(req.user, itemPath));
+};
+
+// List items in trash (flat, newest first by default)
+export const listTrashItems = async (req: Request, res: Response) => {
+    const searchQuery = (req.query.search as string) || '';
+    const sortBy = (req.query.sortBy as string) || 'deletedAt';
+    const sortOrder = (req.query.sortOrder as string) || 'desc';
+    const page = parseInt(req.query.page as string) || 1;
+    const pageSize = parseInt(req.query.pageSize as string) || 50;
+
+    const sortFields: Record<string, string> = {
+        deletedAt: 'deletedAt',
+        size: 'size',
+        name: 'originalPath',
+        path: 'originalPath',
+    };
+
+    try {
+        const filter = searchQuery
+            ? { originalPath: { $regex: searchQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' } }
+            : {};
+
+        const sort = { [sortFields[sortBy] || 'deletedAt']: sortOrder === 'asc' ? 1 : -1 } as const;
+        let records;
+        let totalItems;
+
+        if (req.user.role === 'admin') {
+            [records, totalItems] = await Promise.all([
+                TrashItem.find(filter)
+                    .populate('deletedBy', 'username name surname')
+                    .sort(sort)
+                    .skip((page - 1) * pageSize)
+                    .limit(pageSize)
+                    .lean(),
+                TrashItem.countDocuments(filter),
+            ]);
+        } else {
+            // Other users only see items they could read where they were deleted from
+            const acls = await loadFolderAcls();
+            const visible = (await TrashItem.find(filter)
+                .populate('deletedBy', 'username name surname')
+                .sort(sort)
+                .lean())
+                .filter((record) => hasPermission(
+                    resolveTrashedPermission(acls, req.user, path.join('.trash', record.trashPath), record.originalPath),
+                    'read'
+                ));
+            totalItems = visible.length;
+            records = visible.slice((page - 1) * pageSize, page * pageSize);
+        }
+
+        const items = records.map((record) => ({
+            id: record._id,
+            name: path.basename(record.originalPath),
+            path: path.join('.trash', record.trashPath),
+            originalPath: record.originalPath,
+            isFile: !record.isFolder,
+            isFolder: record.isFolder,
+            size: record.size,
+            deletedAt: record.deletedAt,
+            deletedBy: record.deletedBy,
+        }));
+
+        res.json({
+            items,
+            page,
+            pageSize,
+            totalItems,
+            totalPages: Math.ceil(totalItems / pageSize),
+        });
+    } catch (error) {
+        console.error('Error reading trash:', error);
+        res.status(500).json({ message: 'Error reading trash directory' });
+    }
+};
+
+// Restore item from trash
+export const restoreItem = async (req: Request, res: Response) => {
+    const { itemPath, conflict } = req.body;
+
+    try {
+        const change = await applyRestore(req.user, itemPath, conflict);
+        await commitChange(req.user, change);
+
+        res.json({ message: 'Item restored successfully', path: change.activity?.filePath });
+    } catch (error: any) {
+        console.error('Error restoring item:', error);
+        res.status(error.status || 500).json({ message: error.status ? error.message : 'Error restoring item' });
+    }
+};
+
+// Restore several items from trash
+export const batchRestoreItems = async (req: Request, res: Response) => {
+    const paths = getBatchPaths(req, res);
+    if (!paths) return;
+
+    await runBatch(req, res, paths, (itemPath) => applyRestore(req.user, itemPath, req.body.conflict));
+};
+
+// Permanently delete item from trash
+export const deleteItemPermanently = async (req: Request, res: Response) => {
+    const { itemPath } = req.body;
+
+    try {
+        const change = await applyPermanentDelete(req.user, itemPath);
+        await commitChange(req.user, change);
+
+        res.json({ message: 'Item permanently deleted' });
+    } catch (error: any) {
+        console.error('Error deleting item:', error);
+        res.status(error.status || 500).json({ message: error.status ? error.message : 'Error deleting item' });
+    }
+};
+
+// Permanently delete several items from trash
+export const batchDeleteItemsPermanently = async (req: Request, res: Response) => {
+    const paths = getBatchPaths(req, res);
+    if (!paths) return;
+
+    await runBatch(req, res, paths, (itemPath) => applyPermanentDelete(req.user, itemPath));
+};
+
+
+// Versions of a file live in .versions/<folder>/<name>.<timestamp>
+const getFileVersions = async (sanitizedItemPath: string) => {
+    const versionsDir = path.join('.versions', path.dirname(sanitizedItemPath));
+    const baseName = path.basename(sanitizedItemPath);
+    const items = await store.list(versionsDir).catch(() => [] as StorageStats[]);
+
+    return items
+        .filter((item) => item.isFile)
+        .map((item) => item.name)
+        .filter((file) => file.startsWith(`${baseName}.`) && /^\d+$/.test(file.slice(baseName.length + 1)))
+        .map((file) => ({
+            versionName: file,
+            path: path.join('.versions', path.dirname(sanitizedItemPath), file),
+            timestamp: Number(file.slice(baseName.length + 1)),
+        }))
+        .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Turn the current file into a version, returns the version path
+const createVersion = async (sanitizedFilePath: string) => {
+    const versionPath = path.join('.versions', path.dirname(sanitizedFilePath), `${path.basename(sanitizedFilePath)}.${Date.now()}`);
+    await store.rename(sanitizedFilePath, versionPath);
+    await moveFileRecords('storage', sanitizedFilePath, versionPath);
+
+    return versionPath;
+};
+
+// Keep the last N versions of a file and anything newer than D days
+const pruneVersions = async (sanitizedItemPath: string) => {
+    if (!VERSION_RETENTION_KEEP_LAST && !VERSION_RETENTION_MAX_AGE_DAYS) {
+        return;
+    }
+
+    const minTimestamp = Date.now() - VERSION_RETENTION_MAX_AGE_DAYS * 24 * 3600000;
+    const versions = await getFileVersions(sanitizedItemPath);
+
+    for (const [index, version] of versions.entries()) {
+        const keptByCount = VERSION_RETENTION_KEEP_LAST > 0 && index < VERSION_RETENTION_KEEP_LAST;
+        const keptByAge = VERSION_RETENTION_MAX_AGE_DAYS > 0 && version.timestamp >= minTimestamp;
+        if (!keptByCount && !keptByAge) {
+            await store.remove(version.path);
+            await removeFileRecords('storage', version.path);
+        }
+    }
+};
+
+// Apply the retention policy to every file in .versions
+export const pruneAllVersions = async () => {
+    const visit = async (relativeDir: string) => {
+        const items = await store.list(path.join('.versions', relativeDir)).catch(() => [] as StorageStats[]);
+        const baseNames = new Set<string>();
+
+        for (const item of items) {
+            if (item.isDirectory) {
+                await visit(path.join(relativeDir, item.name));
+            } else {
+                const match = item.name.match(/^(.+)\.\d+$/);
+                if (match) baseNames.add(match[1]);
+            }
+        }
+
+        for (const baseName of baseNames) {
+            await pruneVersions(path.join(relativeDir, baseName));
+        }
+    };
+
+    try {
+        await visit('');
+    } catch (error) {
+        console.error('Error pruning versions:', error);
+    }
+};
+
+// Resolve a file path and one of its version names, or respond with an error.
+// The user needs `required` on the file itself.
+const resolveVersion = async (
+    req: Request,
+    res: Response,
+    itemPath: any,
+    versionName: any,
+    required: FolderPermission
+) => {
+    if (typeof itemPath !== 'string' || typeof versionName !== 'string') {
+        res.status(400).json({ message: 'itemPath and versionName are required' });
+        return null;
+    }
+
+    const sanitizedItemPath = resolveStoragePath(itemPath);
+    const baseName = path.basename(sanitizedItemPath || '');
+
+    // The version must belong to this file, which also prevents directory traversal
+    if (
+        sanitizedItemPath === null ||
+        !versionName.startsWith(`${baseName}.`) ||
+        !/^\d+$/.test(versionName.slice(baseName.length + 1))
+    ) {
+        res.status(400).json({ message: 'Invalid path' });
+        return null;
+    }
+    if (!(await can(req.user, sanitizedItemPath, required))) {
+        res.status(403).json({ message: 'Forbidden: Access denied' });
+        return null;
+    }
+
+    const versionPath = path.join('.versions', path.dirname(sanitizedItemPath), versionName);
+    const stats = await store.stat(versionPath);
+    if (!stats || !stats.isFile) {
+        res.status(404).json({ message: 'Version not found' });
+        return null;
+    }
+
+    return { sanitizedItemPath, versionPath };
+};
+
+// List versions of a file
+export const listVersions = async (req: Request, res: Response) => {
+    const { itemPath } = req.query;
+    const sanitizedItemPath = resolveStoragePath(itemPath);
+
+    // Prevent directory traversal
+    if (sanitizedItemPath === null) {
+        return res.status(400).json({ message: 'Invalid path' });
+    }
+
+    try {
+        if (!(await can(req.user, sanitizedItemPath, 'read'))) {
+            return res.status(403).json({ message: 'Forbidden: Access denied' });
+        }
+
+        const versions = await getFileVersions(sanitizedItemPath);
+
+        // The uploader of a version is whoever last wrote the file before it was replaced
+        const activities = await FileActivity.find({
+            filePath: sanitizedItemPath,
+            action: { $in: ['created', 'updated', 'restored'] },
+        })
+            .sort({ timestamp: -1 })
+            .lean();
+
+        const results = await Promise.all(versions.map(async (version) => {
+            const stats = await store.stat(version.path);
+            const uploader = activities.find((activity) => activity.timestamp.getTime() <= version.timestamp);
+            return {
+                ...version,
+                size: stats?.size || 0,
+                createdAt: new Date(version.timestamp),
+                uploadedBy: uploader
+                    ? {
+                        userId: uploader.userId,
+                        username: uploader.username,
+                        name: uploader.name,
+                        surname: uploader.surname,
+                    }
+                    : null,
+            };
+        }));
+
+        res.json({ versions: results });
+    } catch (error) {
+        console.error('Error reading versions directory:', error);
+        res.status(500).json({ message: 'Error reading versions directory' });
+    }
+};
+
+// Download a specific version of a file
+export const downloadVersion = async (req: Request, res: Response) => {
+    try {
+        const resolved = await resolveVersion(req, res, req.query.itemPath, req.query.versionName, 'read');
+        if (!resolved) return;
+
+        const sent = await sendStoredFile(res, store, resolved.versionPath, {
+            download: true,
+            fileName: path.basename(resolved.sanitizedItemPath),
+        });
+        if (!sent) {
+            res.status(404).json({ message: 'Version not found' });
+        }
+    } catch (error) {
+        console.error('Error downloading version:', error);
+        if (!res.headersSent) {
+            res.status(500).json({ message: 'Error downloading version' });
+        }
+    }
+};
+
+// Restore a version as the current file, the current file becomes a version itself
+export const restoreVersion = async (req: Request, res: Response) => {
+    try {
+        const resolved = await resolveVersion(req, res, req.body.itemPath, req.body.versionName, 'write');
+        if (!resolved) return;
+
+        const { sanitizedItemPath, versionPath } = resolved;
+
+        let previousVersion: string | null = null;
+        if (await store.stat(sanitizedItemPath)) {
+            previousVersion = await createVersion(sanitizedItemPath);
+        }
+
+        await store.rename(versionPath, sanitizedItemPath);
+        await moveFileRecords('storage', versionPath, sanitizedItemPath);
+        await pruneVersions(sanitizedItemPath);
+
+        await FileActivity.create({
+            userId: req.user._id,
+            username: req.user.username,
+            name: req.user.name,
+            surname: req.user.surname,
+            action: 'restored',
+            filePath: sanitizedItemPath,
+        });
+
+        res.json({ message: 'Version restored successfully', previousVersion });
+    } catch (error) {
+        console.error('Error restoring version:', error);
+        res.status(500).json({ message: 'Error restoring version' });
+    }
+};
+
+// Delete a specific version of a file
+export const deleteVersion = async (req: Request, res: Response) => {
+    try {
+        const resolved = await resolveVersion(req, res, req.body.itemPath, req.body.versionName, 'write');
+        if (!resolved) return;
+
+        await store.remove(resolved.versionPath);
+        await removeFileRecords('storage', resolved.versionPath);
+
+        res.json({ message: 'Version deleted successfully' });
+    } catch (error) {
+        console.error('Error deleting version:', error);
+        res.status(500).json({ message: 'Error deleting version' });
+    }
+};
+
+// A Range request only applies if If-Range (when sent) still matches the file
+const isRangeFresh = (req: Request, etag: string, lastModified: Date): boolean => {
+    const ifRange = req.get('If-Range');
+    if (!ifRange) {
+        return true;
+    }
+    if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+        return ifRange === etag;
+    }
+    const date = Date.parse(ifRange);
+    return !isNaN(date) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(date / 1000);
+};
+
+// Download a file using streams, HTTP ranges and caching
+export const downloadFile = async (req: Request, res: Response) => {
+    const filePath = resolveStoragePath(req.query.path);
+
+    // Prevent directory traversal
+    if (filePath === null) {
+        return res.status(400).json({ message: 'Invalid path' });
+    }
+
+    try {
+        if (!(await can(req.user, filePath, 'read'))) {
+            return res.status(403).json({ message: 'Forbidden: Access denied' });
+        }
+
+        const stats = await store.stat(filePath);
+        if (!stats || !stats.isFile) {
+            return res.status(404).json({ message: 'File not found' });
+        }
+
+        const modifiedAt = stats.modifiedAt!;
+        const etag = `"${stats.size.toString(16)}-${modifiedAt.getTime().toString(16)}"`;
+        res.setHeader('Accept-Ranges', 'bytes');
+        res.setHeader('ETag', etag);
+        res.setHeader('Last-Modified', modifiedAt.toUTCString());
+        res.attachment(path.basename(filePath)); // Content-Disposition + Content-Type
+
+        // Digest of the whole file, when its SHA-256 is known
+        const sha256 = await getFileChecksum('storage', filePath);
+        if (sha256) {
+            res.setHeader('Digest', digestHeader(sha256));
+        }
+
+        // If-None-Match / If-Modified-Since
+        if (req.fresh) {
+            return res.status(304).end();
+        }
+
+        let start = 0;
+        let end = stats.size - 1;
+
+        if (req.headers.range && isRangeFresh(req, etag, modifiedAt)) {
+            const ranges = req.range(stats.size, { combine: true });
+
+            if (ranges === -1) {
+                res.setHeader('Content-Range', `bytes */${stats.size}`);
+                return res.status(416).json({ message: 'Requested range not satisfiable' });
+            }
+
+            // Multiple or malformed ranges fall back to the whole file
+            if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+                start = ranges[0].start;
+                end = ranges[0].end;
+                res.status(206);
+                res.setHeader('Content-Range', `bytes ${start}-${end}/${stats.size}`);
+            }
+        }
+
+        res.setHeader('Content-Length', end - start + 1);
+
+        if (req.method === 'HEAD') {
+            return res.end();
+        }
+
+        // Small files are served from the cache, keyed by ETag so overwritten files are never stale
+        if (stats.size <= DOWNLOAD_CACHE_MAX_FILE_SIZE) {
+            const cacheKey = `${filePath}:${etag}`;
+            let data = cache.get(cacheKey);
+            if (!data) {
+                data = await readStoredFile(store, filePath);
+                cache.set(cacheKey, data);
+            }
+            return res.end(data.subarray(start, end + 1));
+        }
+
+        await pipeline(await store.createReadStream(filePath, { start, end }), res);
+    } catch (error) {
+        console.error('Error downloading file:', error);
+        if (!res.headersSent) {
+            res.status(500).json({ message: 'Error downloading file' });
+        } else {
+            res.destroy();
+        }
+    }
+};
+
+// Name of the manifest added to a zip when some entries had to be skipped
+const ZIP_SKIPPED_MANIFEST = 'SKIPPED.txt';
+
+// Download several files and folders as one zip, entries keep their path relative to storageDir.
+// Entries that can't be read are left out and listed in SKIPPED.txt inside the archive.
+export const downloadZip = async (req: Request, res: Response) => {
+    const paths = getBatchPaths(req, res);
+    if (!paths) return;
+
+    const { compressionLevel = ZIP_DEFAULT_COMPRESSION_LEVEL } = req.body;
+    if (!Number.isInteger(compressionLevel) || compressionLevel < 0 || compressionLevel > 9) {
+        return res.status(400).json({ message: 'compressionLevel must be an integer between 0 (store only) and 9' });
+    }
+
+    const itemPaths: string[] = [];
+    for (const itemPath of paths) {
+        const sanitizedItemPath = resolveStoragePath(itemPath);
+
+        // Prevent directory traversal
+        if (sanitizedItemPath === null) {
+            return res.status(400).json({ message: `Invalid path: ${itemPath}` });
+        }
+        itemPaths.push(sanitizedItemPath);
+    }
+
+    // Items inside another selected folder are already part of it
+    const selected = [...new Set(itemPaths)].filter((itemPath, _, all) =>
+        !all.some((other) => itemPath.startsWith(other + path.sep))
+    );
+
+    // Folders below a selected one that the user may not read are left out of the archive
+    let canRead: (itemPath: string) => boolean;
+    try {
+        const permissionOf = await getPermissionResolver(req.user);
+        canRead = (itemPath) => hasPermission(permissionOf(itemPath), 'read');
+    } catch (error) {
+        console.error('Error checking permissions:', error);
+        return res.status(500).json({ message: 'Error creating archive' });
+    }
+    if (!selected.every(canRead)) {
+        return res.status(403).json({ message: 'Forbidden: Access denied' });
+    }
+
+    const skipped: { path: string; reason: string }[] = [];
+    const skip = (itemPath: string, error: Error) => {
+        console.warn(`Skipping ${itemPath} in zip:`, error.message);
+        skipped.push({ path: itemPath, reason: (error as any).code || error.message });
+    };
+
+    // Level 0 only stores entries, which avoids recompressing media that is already compressed
+    const archive = archiver('zip', compressionLevel === 0 ? { store: true } : { zlib: { level: compressionLevel } });
+
+    res.attachment(selected.length === 1 ? `${path.basename(selected[0])}.zip` : 'storage.zip');
+
+    archive.on('warning', (err) => {
+        console.warn('Warning during archiving:', err);
+    });
+    archive.on('error', (err) => {
+        console.error('Error during archiving:', err);
+        if (!res.headersSent) {
+            res.status(500).json({ message: 'Error creating archive' });
+        } else {
+            res.destroy();
+        }
+    });
+
+    archive.pipe(res);
+
+    try {
+        for (const itemPath of selected) {
+            if (!(await store.stat(itemPath))) {
+                skipped.push({ path: itemPath, reason: 'Not found' });
+                continue;
+            }
+            await addToArchive(archive, store, itemPath, itemPath.split(path.sep).join('/'), skip, canRead);
+        }
+
+        if (skipped.length > 0) {
+            const manifest = skipped.map((item) => `${item.path}\t${item.reason}`).join('\n');
+            archive.append(`Skipped entries (path, reason)\n\n${manifest}\n`, { name: ZIP_SKIPPED_MANIFEST });
+        }
+
+        await archive.finalize();
+    } catch (error) {
+        console.error('Error creating zip:', error);
+        archive.abort();
+        res.destroy();
+    }
+};
+
+// Size the first chunk of an upload declared for the whole file, kept next to the chunks
+const CHUNK_TOTAL_SIZE_FILE = 'total_size';
+
+// Bytes stored for the chunks of an upload, leaving out `except` when a chunk is sent again
+const chunkBytes = (tempDir: string, except?: string) => fs.readdirSync(tempDir)
+    .filter((name) => name.startsWith('chunk_') && name !== except)
+    .reduce((sum, name) => sum + fs.statSync(path.join(tempDir, name)).size, 0);
+
+// Upload files using chunked uploads
+export const uploadChunk = async (req: Request, res: Response) => {
+    const { fileName, chunkIndex, totalChunks } = req.body;
+
+    const sanitizedFileName = resolveStoragePath(fileName);
+
+    // Prevent directory traversal, the chunk index also ends up in a path
+    if (sanitizedFileName === null || !/^\d+$/.test(String(chunkIndex))) {
+        return res.status(400).json({ message: 'Invalid path' });
+    }
+
+    try {
+        if (!(await can(req.user, sanitizedFileName, 'write'))) {
+            return res.status(403).json({ message: 'Forbidden: Access denied' });
+        }
+    } catch (error) {
+        console.error('Error checking permissions:', error);
+        return res.status(500).json({ message: 'Error uploading chunk' });
+    }
+
+    const tempDir = path.join(storageDir, '.temp', sanitizedFileName);
+    const chunkName = `chunk_${chunkIndex}`;
+    const chunkPath = path.join(tempDir, chunkName);
+
+    try {
+        // Ensure temp directory exists
+        fs.mkdirSync(tempDir, { recursive: true });
+
+        // The totalSize given with the first chunk holds for the whole upload
+        const totalSizePath = path.join(tempDir, CHUNK_TOTAL_SIZE_FILE);
+        const { totalSize } = req.body;
+        if (!fs.existsSync(totalSizePath) && totalSize !== undefined && totalSize !== '') {
+            fs.writeFileSync(totalSizePath, String(Number(totalSize)));
+        }
+        const declaredSize = fs.existsSync(totalSizePath) ? Number(fs.readFileSync(totalSizePath, 'utf-8')) : Infinity;
+
+        // Stop receiving as soon as the chunks pass the declared size or what is left of the quota
+        const usage = await checkQuota(req.user, 0);
+        const remainingQuota = usage.quota === 0 ? Infinity : usage.quota - usage.used;
+        const allowedBytes = Math.min(declaredSize, remainingQuota) - chunkBytes(tempDir, chunkName);
+        let received = 0;
+
+        // The chunk has to be flushed before the folder is read for the assembled size
+        await pipeline(
+            req,
+            new Transform({
+                transform(chunk, encoding, callback) {
+                    received += chunk.length;
+                    if (received > allowedBytes) {
+                        const message = declaredSize <= remainingQuota
+                            ? 'Upload exceeds its declared totalSize'
+                            : 'Storage quota exceeded';
+                        return callback(operationError(413, message));
+                    }
+                    callback(null, chunk);
+                },
+            }),
+            fs.createWriteStream(chunkPath)
+        );
+
+        if (parseInt(chunkIndex) !== parseInt(totalChunks) - 1) {
+            return res.json({ message: 'Chunk uploaded successfully' });
+        }
+
+        // Last chunk received, make sure the whole file still fits the quota
+        const assembledSize = chunkBytes(tempDir);
+        const { allowed, quota, used } = await checkQuota(req.user, assembledSize);
+        if (!allowed) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+            return res.status(413).json({ message: 'Storage quota exceeded', quota, used, requested: assembledSize });
+        }
+
+        try {
+            // Keep the file being replaced as a version
+            if (await store.stat(sanitizedFileName)) {
+                await createVersion(sanitizedFileName);
+            }
+
+            // Assemble the file, one chunk after the other
+            await pipeline(
+                Readable.from((async function* () {
+                    for (let i = 0; i < parseInt(totalChunks); i++) {
+                        yield* fs.createReadStream(path.join(tempDir, `chunk_${i}`));
+                    }
+                })()),
+                store.createWriteStream(sanitizedFileName)
+            );
+        } finally {
+            // Cleanup temp files
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+
+        try {
+            const hash = dedupEnabled ? await storeAsBlob(store.localPath(sanitizedFileName)!) : undefined;
+            await recordFile('storage', sanitizedFileName, req.user._id, assembledSize, hash);
+            await pruneVersions(sanitizedFileName);
+        } catch (error) {
+            console.error('Error recording file:', error);
+        }
+        res.json({ message: 'File uploaded successfully' });
+    } catch (error: any) {
+        if (error.status === 413) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+            return res.status(413).json({ message: error.message });
+        }
+        console.error('Error uploading chunk:', error);
+        if (!res.headersSent) {
+            res.status(500).json({ message: 'Error uploading chunk' });
+        }
+    }
+};
+
+// Update filePreview function
+export const filePreview = async (req: Request, res: Response) => {
+    try {
+        const filePath = resolveStoragePath(req.query.path);
+
+        // Ensure the path is within the storage directory and readable before looking the file up
+        if (filePath === null) {
+            return res.status(404).json({ message: 'File not found or invalid path' });
+        }
+        if (!(await can(req.user, filePath, 'read'))) {
+            return res.status(403).json({ message: 'Forbidden: Access denied' });
+        }
+        const stats = await store.stat(filePath);
+        if (!stats || !stats.isFile) {
             return res.status(404).json({ message: 'File not found or invalid path' });
         }
 
-        const mimeType = mime.lookup(fullPath);
+        const mimeType = mime.lookup(filePath);
 
-        // Serve image files
-        if (mimeType && mimeType.startsWith('image/')) {
-            res.setHeader('Content-Type', mimeType);
-            return res.sendFile(fullPath);
+        // Serve image and PDF files
+        if (mimeType && (mimeType.startsWith('image/') || mimeType === 'application/pdf')) {
+            await sendStoredFile(res, store, filePath);
+            return;
         }
 
         // Serve text files with limited preview
         if (mimeType && mimeType.startsWith('text/')) {
-            const data = await fs.promises.readFile(fullPath, 'utf-8');
+            const data = (await readStoredFile(store, filePath, 20000)).toString('utf-8');
             res.setHeader('Content-Type', 'text/plain');
             return res.send(data.substring(0, 5000)); // Increased limit
         }
 
-        // Serve PDF files
-        if (mimeType === 'application/pdf') {
-            res.setHeader('Content-Type', mimeType);
-            return res.sendFile(fullPath);
-        }
-
         // Unsupported preview type
         res.status(400).json({ message: 'Preview not available for this file type' });
     } catch (error) {
@@ -622,60 +1776,283 @@ export const filePreview = async (req: Request, res: Response) => {
 };
 
 // Upload files with versioning
+// Storage path for a file uploaded into a folder, null when either part is unsafe or internal
+export const resolveUploadPath = (folderPath: unknown, fileName: unknown) => {
+    const folder = resolveStoragePath(folderPath || '', true);
+    const name = safeFileName(fileName);
+    if (folder === null || name === null) {
+        return null;
+    }
+    return path.join(folder, name);
+};
+
+// Move a staged upload into storage, keeping the file it replaces as a version.
+// `checksum` is the SHA-256 of the upload when the caller knows it, otherwise none is kept for the file.
+export const storeUploadedFile = async (
+    user: any,
+    localPath: string,
+    filePath: string,
+    size: number,
+    checksum?: string
+) => {
+    const overwritten = Boolean(await store.stat(filePath));
+    if (overwritten) {
+        await createVersion(filePath);
+    }
+
+    await store.putFile(localPath, filePath);
+    const hash = dedupEnabled ? await storeAsBlob(store.localPath(filePath)!) : undefined;
+    await recordFile('storage', filePath, user._id, size, hash, checksum);
+
+    if (overwritten) {
+        await pruneVersions(filePath);
+    }
+
+    // Log the file upload activity
+    await FileActivity.create({
+        userId: user._id,
+        username: user.username,
+        name: user.name,
+        surname: user.surname,
+        action: overwritten ? 'updated' : 'created',
+        filePath: filePath,
+    });
+};
+
 export const uploadFiles = async (req: Request, res: Response) => {
     if (!req.files || (req.files as Express.Multer.File[]).length === 0) {
         return res.status(400).json({ message: 'No files uploaded' });
     }
 
+    const files = req.files as Express.Multer.File[];
+
     try {
         const user = req.user;
+        const folderPath = resolveStoragePath(req.body.folderPath || req.query.folderPath || '', true);
 
-        for (const file of req.files as Express.Multer.File[]) {
-            const folderPath = sanitizePath(req.body.folderPath || '');
-            const filePath = path.join(folderPath, file.originalname);
-
-            if (fs.existsSync(path.join(storageDir, filePath))) {
-                const versionDir = path.join(storageDir, '.versions', folderPath);
-                ensureDirectory(versionDir);
+        if (folderPath !== null && !(await can(user, folderPath, 'write'))) {
+            return res.status(403).json({ message: 'Forbidden: Access denied' });
+        }
 
-                const timestamp = Date.now();
-                const versionedFileName = `${file.originalname}.${timestamp}`;
+        for (const file of files) {
+            const fileName = safeFileName(file.originalname);
 
-                fs.renameSync(
-                    path.join(storageDir, filePath),
-                    path.join(versionDir, versionedFileName)
-                );
+            // Prevent directory traversal
+            if (folderPath === null || fileName === null) {
+                return res.status(400).json({ message: 'Invalid path' });
             }
 
-
-            // Log the file upload activity
-            await FileActivity.create({
-                userId: user._id,
-                username: user.username,
-                name: user.name,
-                surname: user.surname,
-                action: 'created',
-                filePath: filePath,
-            });
+            await storeUploadedFile(user, file.path, path.join(folderPath, fileName), file.size);
         }
 
         res.status(201).json({ message: 'Files uploaded successfully' });
     } catch (error) {
         console.error('Error uploading files:', error);
         res.status(500).json({ message: 'Error uploading files' });
+    } finally {
+        // Remove whatever was not moved into place
+        for (const file of files) {
+            fs.rmSync(file.path, { force: true });
+        }
+    }
+};
+
+
+// Storage usage of the current user (admins can pass ?userId=)
+export const getStorageUsage = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.query;
+        let user = req.user;
+
+        if (userId !== undefined && (typeof userId !== 'string' || !mongoose.isValidObjectId(userId))) {
+            return res.status(400).json({ message: 'Invalid userId' });
+        }
+
+        if (userId && userId !== String(req.user._id)) {
+            if (req.user.role !== 'admin') {
+                return res.status(403).json({ message: 'Forbidden: Access denied' });
+            }
+            user = await User.findById(userId);
+            if (!user) {
+                return res.status(404).json({ message: 'User not found' });
+            }
+        }
+
+        const usage = await getUserUsage(user._id);
+        const quota = getUserQuota(user);
+
+        res.json({
+            userId: user._id,
+            quota,
+            remaining: quota === 0 ? null : Math.max(quota - usage.total, 0),
+            usage,
+        });
+    } catch (error) {
+        console.error('Error fetching storage usage:', error);
+        res.status(500).json({ message: 'Error fetching storage usage' });
     }
 };
 
+// Set (or reset with null) the quota of a single user
+export const setUserQuota = async (req: Request, res: Response) => {
+    try {
+        const { userId, quota } = req.body;
+
+        if (quota !== null && (typeof quota !== 'number' || quota < 0)) {
+            return res.status(400).json({ message: 'Quota must be a positive number of bytes or null' });
+        }
+
+        const update = quota === null ? { $unset: { storageQuota: 1 } } : { storageQuota: quota };
+        const user = await User.findByIdAndUpdate(userId, update, { new: true }).select('-password');
+        if (!user) {
+            return res.status(404).json({ message: 'User not found' });
+        }
+
+        res.json({ message: 'Quota updated successfully', quota: getUserQuota(user) });
+    } catch (error) {
+        console.error('Error updating quota:', error);
+        res.status(500).json({ message: 'Error updating quota' });
+    }
+};
+
+// Resolve a folder whose permissions are viewed or edited, or respond with an error
+const resolveAclFolder = async (req: Request, res: Response, folderPath: unknown) => {
+    const sanitizedFolderPath = resolveStoragePath(folderPath || '', true);
+
+    // Prevent directory traversal
+    if (sanitizedFolderPath === null) {
+        res.status(400).json({ message: 'Invalid path' });
+        return null;
+    }
+    if (!(await can(req.user, sanitizedFolderPath, 'manage'))) {
+        res.status(403).json({ message: 'Forbidden: Access denied' });
+        return null;
+    }
+    const stats = sanitizedFolderPath ? await store.stat(sanitizedFolderPath) : null;
+    if (sanitizedFolderPath && (!stats || !stats.isDirectory)) {
+        res.status(404).json({ message: 'Folder not found' });
+        return null;
+    }
+    return sanitizedFolderPath;
+};
+
+// Entries of a folder and the ones it inherits, with the resulting permission of every role
+// and of every user named in them
+const describeFolderPermissions = async (user: any, folderPath: string) => {
+    const folders = pathAndAncestors(folderPath);
+    const acls = await loadFolderAcls(folders);
+
+    const entries = acls.get(folderPath) || [];
+    const inherited = folders.slice(1)
+        .filter((folder) => acls.has(folder))
+        .map((folder) => ({ path: folder, entries: acls.get(folder)! }));
+
+    const userIds = [...acls.values()].flat().filter((entry) => entry.user).map((entry) => entry.user);
+    const users = await User.find({ _id: { $in: userIds } }).select('username name surname role').lean();
+
+    const effective = [
+        ...['admin', 'user'].map((role) => ({
+            role,
+            ...resolvePermission(acls, { _id: null, role }, folderPath),
+        })),
+        ...users.map((named) => ({
+            user: { _id: named._id, username: named.username, name: named.name, surname: named.surname },
+            ...resolvePermission(acls, named, folderPath),
+        })),
+    ];
+
+    return {
+        path: folderPath,
+        permission: resolvePermission(acls, user, folderPath).permission,
+        entries,
+        inherited,
+        effective,
+    };
+};
+
+// Permissions of a folder, only for users who manage it
+export const getFolderPermissions = async (req: Request, res: Response) => {
+    try {
+        const folderPath = await resolveAclFolder(req, res, req.query.path);
+        if (folderPath === null) return;
+
+        res.json(await describeFolderPermissions(req.user, folderPath));
+    } catch (error) {
+        console.error('Error fetching folder permissions:', error);
+        res.status(500).json({ message: 'Error fetching folder permissions' });
+    }
+};
+
+// Replace the entries of a folder, an empty list makes it inherit everything again
+export const updateFolderPermissions = async (req: Request, res: Response) => {
+    try {
+        const { entries } = req.body;
+
+        const folderPath = await resolveAclFolder(req, res, req.body.path);
+        if (folderPath === null) return;
+
+        if (!Array.isArray(entries)) {
+            return res.status(400).json({ message: 'entries must be an array' });
+        }
+
+        const principals = new Set<string>();
+        const sanitizedEntries: IFolderAclEntry[] = [];
+        for (const entry of entries) {
+            const { user, role, permission } = entry || {};
+            if (!isFolderPermission(permission)) {
+                return res.status(400).json({ message: 'permission must be one of none, read, write or manage' });
+            }
+            if ((user === undefined) === (role === undefined)) {
+                return res.status(400).json({ message: 'Each entry needs either a user or a role' });
+            }
+            if (role !== undefined && role !== 'user') {
+                return res.status(400).json({ message: 'role must be user, admins always manage every folder' });
+            }
+            if (user !== undefined && !mongoose.isValidObjectId(user)) {
+                return res.status(400).json({ message: `Invalid user id: ${user}` });
+            }
+
+            const principal = user !== undefined ? `user:${user}` : `role:${role}`;
+            if (principals.has(principal)) {
+                return res.status(400).json({ message: `Duplicate entry for ${principal}` });
+            }
+            principals.add(principal);
+            sanitizedEntries.push(user !== undefined ? { user, permission } : { role, permission });
+        }
+
+        const userIds = sanitizedEntries.filter((entry) => entry.user).map((entry) => entry.user);
+        if ((await User.countDocuments({ _id: { $in: userIds } })) !== userIds.length) {
+            return res.status(404).json({ message: 'User not found' });
+        }
+
+        if (sanitizedEntries.length === 0) {
+            await FolderAcl.deleteOne({ path: folderPath });
+        } else {
+            await FolderAcl.updateOne(
+                { path: folderPath },
+                { path: folderPath, entries: sanitizedEntries, updatedBy: req.user._id, updatedAt: new Date() },
+                { upsert: true }
+            );
+        }
+
+        res.json({ message: 'Folder permissions updated', ...(await describeFolderPermissions(req.user, folderPath)) });
+    } catch (error) {
+        console.error('Error updating folder permissions:', error);
+        res.status(500).json({ message: 'Error updating folder permissions' });
+    }
+};
 
 export const createShareLink = async (req: Request, res: Response) => {
     try {
         const { filePath, expiresIn } = req.body; // expiresIn in hours
-        const sanitizedFilePath = sanitizePath(filePath);
-        const fullPath = path.join(storageDir, sanitizedFilePath);
+        const sanitizedFilePath = resolveStoragePath(filePath);
 
-        if (!fullPath.startsWith(storageDir) || !fs.existsSync(fullPath)) {
+        if (sanitizedFilePath === null || !(await store.stat(sanitizedFilePath))) {
             return res.status(400).json({ message: 'Invalid file path' });
         }
+        if (!(await can(req.user, sanitizedFilePath, 'read'))) {
+            return res.status(403).json({ message: 'Forbidden: Access denied' });
+        }
 
         const token = uuidv4();
         const expiresAt = new Date(Date.now() + expiresIn * 3600000); // Convert hours to milliseconds
@@ -703,6 +2080,7 @@ export const createShareLink = async (req: Request, res: Response) => {
 export const getSharedFile = async (req: Request, res: Response) => {
     try {
         const { token } = req.params;
+        const served = trackShareAccess(req, res, { linkType: 'file', code: token, action: 'download' });
 
         const sharedFile = await SharedFile.findOne({ token });
 
@@ -714,11 +2092,47 @@ export const getSharedFile = async (req: Request, res: Response) => {
             return res.status(410).json({ message: 'Shared link has expired' });
         }
 
-        const fullPath = path.join(storageDir, sharedFile.filePath);
+        const stats = await store.stat(sharedFile.filePath);
+        if (!stats || !stats.isFile) {
+            return res.status(404).json({ message: 'Shared file not found' });
+        }
 
-        res.sendFile(fullPath);
+        served.bytes = stats.size;
+        const sha256 = await getFileChecksum('storage', sharedFile.filePath);
+        await sendStoredFile(res, store, sharedFile.filePath, { sha256 });
     } catch (error) {
         console.error('Error fetching shared file:', error);
-        res.status(500).json({ message: 'Error fetching shared file' });
+        if (!res.headersSent) {
+            res.status(500).json({ message: 'Error fetching shared file' });
+        }
+    }
+};
+
+// Access statistics for one of the user's shared file links
+export const getSharedFileStats = async (req: Request, res: Response) => {
+    try {
+        const { token } = req.params;
+        const sharedFile = await SharedFile.findOne({ token, createdBy: req.user._id });
+
+        if (!sharedFile) {
+            return res.status(404).json({ message: 'Shared file not found' });
+        }
+
+        const stats = await buildShareStats('file', token);
+        res.json({ token, filePath: sharedFile.filePath, expiresAt: sharedFile.expiresAt, ...stats });
+    } catch (error) {
+        console.error('Error fetching shared file stats:', error);
+        res.status(500).json({ message: 'Error fetching shared file stats' });
+    }
+};
+
+// How much space the deduplicated blob store saves
+export const getDedupReport = async (req: Request, res: Response) => {
+    try {
+        const report = await buildDedupReport();
+        res.json({ enabled: dedupEnabled, ...report });
+    } catch (error) {
+        console.error('Error building dedup report:', error);
+        res.status(500).json({ message: 'Error building dedup report' });
     }
 };
@@ -0,0 +1,109 @@
+// controllers/tusController.test.ts
+
+import { test, describe, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import mongoose from 'mongoose';
+import FileRecord from '../models/FileRecord';
+import AddFilesCode from '../models/AddFilesCode';
+import TusUpload, { ITusUpload, TusTarget } from '../models/TusUpload';
+import ChangeLog from '../models/ChangeLog';
+import FileActivity from '../models/FileActivity';
+import { getStorageDriver, StorageArea } from '../drivers';
+import { finishUpload } from './tusController';
+
+const TUS_DIR = path.join(__dirname, '../temp_chunks/tus');
+const user = { _id: new mongoose.Types.ObjectId(), username: 'alice' };
+const sha256 = (content: string) => crypto.createHash('sha256').update(content).digest('hex');
+
+// Checksums as the database would keep them: FileRecords by "area:path", add-files entries by "code/name"
+let fileChecksums: Map<string, string | undefined>;
+let codeChecksums: Map<string, string>;
+
+const areaOf: Record<TusTarget, StorageArea> = { storage: 'storage', share: 'share', 'add-files': 'get_files' };
+
+beforeEach(() => {
+    fileChecksums = new Map();
+    codeChecksums = new Map();
+
+    // Every destination already holds a file, which the upload replaces
+    for (const area of ['storage', 'share', 'get_files'] as StorageArea[]) {
+        const driver = getStorageDriver(area);
+        mock.method(driver, 'stat', async (itemPath: string) => ({
+            name: path.basename(itemPath),
+            path: itemPath,
+            isFile: true,
+            isDirectory: false,
+            size: 3,
+            modifiedAt: new Date(),
+            createdAt: new Date(),
+        }));
+        mock.method(driver, 'putFile', async (localPath: string) => fs.promises.rm(localPath, { force: true }));
+        mock.method(driver, 'rename', async () => undefined);
+        mock.method(driver, 'list', async () => []);
+    }
+
+    mock.method(FileRecord, 'findOneAndUpdate', (filter: any, update: any) => {
+        const key = `${filter.area}:${filter.path}`;
+        const previous = fileChecksums.has(key) ? { checksum: fileChecksums.get(key) } : null;
+        fileChecksums.set(key, update.$unset?.checksum ? undefined : update.checksum);
+        return { lean: async () => previous };
+    });
+    mock.method(FileRecord, 'find', () => ({ select: () => ({ lean: async () => [] }) }));
+    mock.method(AddFilesCode, 'updateOne', async (filter: any, update: any) => {
+        if (update.$pull) {
+            codeChecksums.delete(`${filter.code}/${update.$pull.checksums.fileName}`);
+        }
+        if (update.$push) {
+            codeChecksums.set(`${filter.code}/${update.$push.checksums.fileName}`, update.$push.checksums.sha256);
+        }
+        return {};
+    });
+    mock.method(TusUpload, 'deleteOne', async () => ({}));
+    mock.method(ChangeLog, 'create', async () => ({}));
+    mock.method(FileActivity, 'create', async () => ({}));
+});
+
+afterEach(() => {
+    mock.restoreAll();
+});
+
+// Stage `content` like the PATCH requests would and finish the upload
+const finish = async (target: TusTarget, destination: string, fileName: string, content: string) => {
+    const upload = {
+        _id: new mongoose.Types.ObjectId(),
+        uploadId: `test-${crypto.randomUUID()}`,
+        target,
+        destination,
+        fileName,
+        length: Buffer.byteLength(content),
+    } as unknown as ITusUpload;
+    fs.mkdirSync(TUS_DIR, { recursive: true });
+    fs.writeFileSync(path.join(TUS_DIR, upload.uploadId), content);
+
+    await finishUpload(upload, path.join(destination, fileName), user);
+    assert.equal(fs.existsSync(path.join(TUS_DIR, upload.uploadId)), false);
+};
+
+describe('finishUpload replaces the checksum of an overwritten file', () => {
+    for (const target of ['storage', 'share'] as TusTarget[]) {
+        test(target, async () => {
+            const key = `${areaOf[target]}:${path.join('docs', 'report.txt')}`;
+            fileChecksums.set(key, sha256('old'));
+
+            await finish(target, 'docs', 'report.txt', 'new content');
+
+            assert.equal(fileChecksums.get(key), sha256('new content'));
+        });
+    }
+
+    test('add-files', async () => {
+        codeChecksums.set('code123/report.txt', sha256('old'));
+
+        await finish('add-files', 'code123', 'report.txt', 'new content');
+
+        assert.equal(codeChecksums.get('code123/report.txt'), sha256('new content'));
+    });
+});
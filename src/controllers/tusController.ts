@@ -0,0 +1,393 @@
+// controllers/tusController.ts
+import { Request, Response, NextFunction } from 'express';
+import fs from 'fs';
+import path from 'path';
+import mime from 'mime-types';
+import { Transform } from 'stream';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import TusUpload, { ITusUpload, TusTarget } from '../models/TusUpload';
+import ChangeLog from '../models/ChangeLog';
+import { TUS_UPLOAD_EXPIRY_HOURS, TUS_MAX_SIZE } from '../config/config';
+import { resolveUploadPath, storeUploadedFile } from './storageController';
+import { findActiveCode, getCodeUsage, isMimeTypeAllowed, setFileChecksum } from './addFilesController';
+import { resolveSharePath } from './shareController';
+import { checkQuota, recordFile } from '../utils/storageUsage';
+import { safeFileName } from '../utils/safePath';
+import { hashFile } from '../utils/blobStore';
+import { getStorageDriver } from '../drivers';
+import { getPermission, hasPermission } from '../utils/folderAcl';
+import { hasScope } from '../middleware/authMiddleware';
+
+const pipeline = promisify(require('stream').pipeline);
+
+const TUS_VERSION = '1.0.0';
+const TUS_EXTENSIONS = 'creation,expiration,termination';
+
+// Headers browser clients need to read, for the CORS setup of the tus routes
+export const TUS_EXPOSED_HEADERS = [
+    'Location',
+    'Tus-Resumable',
+    'Tus-Version',
+    'Tus-Extension',
+    'Tus-Max-Size',
+    'Upload-Offset',
+    'Upload-Length',
+    'Upload-Metadata',
+    'Upload-Expires',
+];
+
+// Received bytes are kept here until the upload is complete
+const TUS_DIR = path.join(__dirname, '../temp_chunks/tus');
+if (!fs.existsSync(TUS_DIR)) {
+    fs.mkdirSync(TUS_DIR, { recursive: true });
+}
+
+// Uploads currently receiving a PATCH, a second one would write over the same bytes
+const activeUploads = new Set<string>();
+
+const stagingPath = (uploadId: string) => path.join(TUS_DIR, uploadId);
+
+// "key base64value,key2 base64value2,flag" as sent in Upload-Metadata
+const parseMetadata = (header: unknown) => {
+    const metadata: Record<string, string> = {};
+    if (typeof header !== 'string') {
+        return metadata;
+    }
+    for (const pair of header.split(',')) {
+        const [key, value] = pair.trim().split(' ');
+        if (key) {
+            metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+        }
+    }
+    return metadata;
+};
+
+// Upload-Length and Upload-Offset are non-negative integers, anything else is rejected
+const parseByteCount = (header: unknown) =>
+    typeof header === 'string' && /^\d+$/.test(header) ? Number(header) : null;
+
+// Check a new or finishing upload against its destination.
+// Returns the path the file ends up at, or the status and message to reject it with.
+const checkDestination = async (
+    target: TusTarget,
+    destination: string,
+    fileName: string,
+    length: number,
+    user: any
+): Promise<{ itemPath?: string; status: number; message: string }> => {
+    if (safeFileName(fileName) === null) {
+        return { status: 400, message: 'Invalid file name' };
+    }
+
+    if (target === 'add-files') {
+        const { entry, status, message } = await findActiveCode(destination);
+        if (!entry) {
+            return { status, message };
+        }
+        if (!isMimeTypeAllowed(entry, mime.lookup(fileName) || 'application/octet-stream')) {
+            return { status: 415, message: 'File type is not allowed for this code' };
+        }
+        const usage = await getCodeUsage(destination);
+        if (usage.fileCount >= entry.maxFiles || usage.totalSize + length > entry.maxTotalSize) {
+            return { status: 413, message: 'Upload exceeds the limits of this code' };
+        }
+        return { itemPath: path.join(destination, fileName), status: 200, message: 'OK' };
+    }
+
+    if (!user) {
+        return { status: 401, message: 'Unauthorized: No token provided' };
+    }
+
+    let itemPath: string | null = null;
+    if (target === 'storage') {
+        itemPath = resolveUploadPath(destination, fileName);
+    } else if (target === 'share') {
+        const folder = resolveSharePath(destination, true);
+        itemPath = folder !== null ? path.join(folder, fileName) : null;
+    }
+    if (itemPath === null) {
+        return { status: 400, message: 'Invalid path' };
+    }
+    if (target === 'storage' && !hasPermission(await getPermission(user, itemPath), 'write')) {
+        return { status: 403, message: 'Forbidden: Access denied' };
+    }
+
+    const { allowed } = await checkQuota(user, length);
+    if (!allowed) {
+        return { status: 413, message: 'Storage quota exceeded' };
+    }
+    return { itemPath, status: 200, message: 'OK' };
+};
+
+// Move a complete upload to its destination. The upload may replace an existing file,
+// so the checksum kept for the destination is replaced with the one of the new content.
+export const finishUpload = async (upload: ITusUpload, itemPath: string, user: any) => {
+    const localPath = stagingPath(upload.uploadId);
+    const sha256 = await hashFile(localPath);
+
+    if (upload.target === 'storage') {
+        await storeUploadedFile(user, localPath, itemPath, upload.length, sha256);
+    } else if (upload.target === 'share') {
+        await getStorageDriver('share').putFile(localPath, itemPath);
+        await recordFile('share', itemPath, user._id, upload.length, undefined, sha256);
+        await ChangeLog.create({ user: user._id, action: 'upload', itemPath });
+    } else {
+        await getStorageDriver('get_files').putFile(localPath, itemPath);
+        await setFileChecksum(upload.destination, upload.fileName, sha256);
+    }
+
+    await TusUpload.deleteOne({ _id: upload._id });
+};
+
+// Drop an upload together with the bytes received so far
+export const removeTusUpload = async (upload: ITusUpload) => {
+    fs.rmSync(stagingPath(upload.uploadId), { force: true });
+    await TusUpload.deleteOne({ _id: upload._id });
+};
+
+// Look up an upload and make sure the caller may continue it
+const findTusUpload = async (req: Request): Promise<{ upload?: ITusUpload; status: number; message: string }> => {
+    const upload = await TusUpload.findOne({ uploadId: req.params.id });
+    if (!upload) {
+        return { status: 404, message: 'Upload not found' };
+    }
+    if (upload.expiresAt < new Date()) {
+        return { status: 410, message: 'Upload has expired' };
+    }
+    if (upload.createdBy && !upload.createdBy.equals(req.user?._id)) {
+        return { status: 403, message: 'Forbidden: Access denied' };
+    }
+    return { upload, status: 200, message: 'OK' };
+};
+
+// Every tus response names the protocol version, requests for other versions are refused
+export const checkTusVersion = (req: Request, res: Response, next: NextFunction) => {
+    res.set('Tus-Resumable', TUS_VERSION);
+    if (req.method !== 'OPTIONS' && req.headers['tus-resumable'] !== TUS_VERSION) {
+        res.set('Tus-Version', TUS_VERSION);
+        return res.status(412).json({ message: 'Unsupported tus version' });
+    }
+    next();
+};
+
+// OPTIONS /tus
+export const getTusOptions = (req: Request, res: Response) => {
+    res.set({
+        'Tus-Version': TUS_VERSION,
+        'Tus-Extension': TUS_EXTENSIONS,
+    });
+    if (TUS_MAX_SIZE) {
+        res.set('Tus-Max-Size', String(TUS_MAX_SIZE));
+    }
+    res.status(204).end();
+};
+
+// POST /tus
+export const createTusUpload = async (req: Request, res: Response) => {
+    try {
+        const length = parseByteCount(req.headers['upload-length']);
+        if (length === null) {
+            return res.status(400).json({ message: 'Upload-Length header is required' });
+        }
+        if (TUS_MAX_SIZE && length > TUS_MAX_SIZE) {
+            return res.status(413).json({ message: 'Upload exceeds the maximum size' });
+        }
+
+        // Metadata names the destination, e.g. target=share, path=some/folder, filename=a.pdf
+        const metadata = parseMetadata(req.headers['upload-metadata']);
+        const target = (metadata.target || 'storage') as TusTarget;
+        if (!['storage', 'share', 'add-files'].includes(target)) {
+            return res.status(400).json({ message: 'Unknown upload target' });
+        }
+        const requiredScope = target === 'share' ? 'share:manage' : 'storage:write';
+        if (target !== 'add-files' && !hasScope(req, requiredScope)) {
+            return res.status(403).json({ message: `Forbidden: Token needs the ${requiredScope} scope` });
+        }
+        const fileName = metadata.filename || metadata.name;
+        const destination = (target === 'add-files' ? metadata.code : metadata.path) || '';
+
+        const { itemPath, status, message } = await checkDestination(target, destination, fileName, length, req.user);
+        if (!itemPath) {
+            return res.status(status).json({ message });
+        }
+
+        const uploadId = uuidv4();
+        fs.writeFileSync(stagingPath(uploadId), '');
+        const upload = await TusUpload.create({
+            uploadId,
+            target,
+            destination,
+            fileName,
+            length,
+            metadata: req.headers['upload-metadata'],
+            createdBy: target === 'add-files' ? undefined : req.user._id,
+            expiresAt: new Date(Date.now() + TUS_UPLOAD_EXPIRY_HOURS * 3600000),
+        });
+
+        res.set({
+            Location: `${req.baseUrl}/tus/${uploadId}`,
+            'Upload-Expires': upload.expiresAt.toUTCString(),
+        });
+        return res.status(201).end();
+    } catch (error) {
+        console.error('Error creating tus upload:', error);
+        return res.status(500).json({ message: 'Server error' });
+    }
+};
+
+// HEAD /tus/:id
+export const getTusUploadOffset = async (req: Request, res: Response) => {
+    res.set('Cache-Control', 'no-store');
+    try {
+        const { upload, status } = await findTusUpload(req);
+        if (!upload) {
+            return res.status(status).end();
+        }
+
+        res.set({
+            'Upload-Offset': String(upload.offset),
+            'Upload-Length': String(upload.length),
+            'Upload-Expires': upload.expiresAt.toUTCString(),
+        });
+        if (upload.metadata) {
+            res.set('Upload-Metadata', upload.metadata);
+        }
+        return res.status(200).end();
+    } catch (error) {
+        console.error('Error reading tus upload:', error);
+        return res.status(500).end();
+    }
+};
+
+// PATCH /tus/:id
+// Appends the body at Upload-Offset. Whatever arrived before a dropped connection is kept,
+// so the client can ask for the offset with HEAD and carry on from there.
+export const patchTusUpload = async (req: Request, res: Response) => {
+    if (req.headers['content-type'] !== 'application/offset+octet-stream') {
+        return res.status(415).json({ message: 'Content-Type must be application/offset+octet-stream' });
+    }
+    const offset = parseByteCount(req.headers['upload-offset']);
+    if (offset === null) {
+        return res.status(400).json({ message: 'Upload-Offset header is required' });
+    }
+
+    const uploadId = req.params.id;
+    if (activeUploads.has(uploadId)) {
+        return res.status(423).json({ message: 'Upload is locked by another request' });
+    }
+    activeUploads.add(uploadId);
+
+    try {
+        const { upload, status, message } = await findTusUpload(req);
+        if (!upload) {
+            return res.status(status).json({ message });
+        }
+        if (offset !== upload.offset) {
+            return res.status(409).json({ message: 'Upload-Offset does not match the received bytes' });
+        }
+
+        const remaining = upload.length - upload.offset;
+        const contentLength = Number(req.headers['content-length']);
+        if (contentLength > remaining) {
+            return res.status(413).json({ message: 'Upload exceeds the announced Upload-Length' });
+        }
+
+        // Drop bytes past the recorded offset, left over from a request that failed half way
+        const localPath = stagingPath(uploadId);
+        await fs.promises.truncate(localPath, upload.offset);
+
+        let received = 0;
+        let writeError: any;
+        try {
+            await pipeline(
+                req,
+                new Transform({
+                    transform(chunk, encoding, callback) {
+                        received += chunk.length;
+                        if (received > remaining) {
+                            return callback(Object.assign(new Error('Upload exceeds the announced Upload-Length'), { status: 413 }));
+                        }
+                        callback(null, chunk);
+                    },
+                }),
+                fs.createWriteStream(localPath, { flags: 'a' })
+            );
+        } catch (error) {
+            writeError = error;
+        }
+
+        // The file on disk is what counts, also after a dropped connection
+        upload.offset = Math.min((await fs.promises.stat(localPath)).size, upload.length);
+        upload.expiresAt = new Date(Date.now() + TUS_UPLOAD_EXPIRY_HOURS * 3600000);
+        await upload.save();
+
+        if (writeError) {
+            if (writeError.status) {
+                return res.status(writeError.status).json({ message: writeError.message });
+            }
+            if (!req.destroyed) {
+                console.error('Error receiving tus upload:', writeError);
+                return res.status(500).json({ message: 'Server error' });
+            }
+            return; // Client went away, it resumes with HEAD
+        }
+
+        if (upload.offset === upload.length) {
+            // Limits and quota may have changed since the upload was created
+            const check = await checkDestination(upload.target, upload.destination, upload.fileName, upload.length, req.user);
+            if (!check.itemPath) {
+                await removeTusUpload(upload);
+                return res.status(check.status).json({ message: check.message });
+            }
+            await finishUpload(upload, check.itemPath, req.user);
+        }
+
+        res.set({
+            'Upload-Offset': String(upload.offset),
+            'Upload-Expires': upload.expiresAt.toUTCString(),
+        });
+        return res.status(204).end();
+    } catch (error) {
+        console.error('Error receiving tus upload:', error);
+        return res.status(500).json({ message: 'Server error' });
+    } finally {
+        activeUploads.delete(uploadId);
+    }
+};
+
+// DELETE /tus/:id
+export const deleteTusUpload = async (req: Request, res: Response) => {
+    try {
+        if (activeUploads.has(req.params.id)) {
+            return res.status(423).json({ message: 'Upload is locked by another request' });
+        }
+        const { upload, status, message } = await findTusUpload(req);
+        if (!upload) {
+            return res.status(status).json({ message });
+        }
+
+        await removeTusUpload(upload);
+        return res.status(204).end();
+    } catch (error) {
+        console.error('Error deleting tus upload:', error);
+        return res.status(500).json({ message: 'Server error' });
+    }
+};
+
+// Remove unfinished uploads that made no progress before they expired
+export const purgeExpiredTusUploads = async () => {
+    try {
+        const expired = await TusUpload.find({ expiresAt: { $lt: new Date() } });
+        for (const upload of expired) {
+            if (!activeUploads.has(upload.uploadId)) {
+                await removeTusUpload(upload);
+            }
+        }
+        if (expired.length > 0) {
+            console.log(`Removed ${expired.length} expired tus upload(s)`);
+        }
+    } catch (error) {
+        console.error('Error purging expired tus uploads:', error);
+    }
+};
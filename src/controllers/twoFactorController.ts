@@ -0,0 +1,292 @@
+// controllers/twoFactorController.ts
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import User, { IUser } from '../models/User';
+import Session from '../models/Session';
+import SecurityPolicy from '../models/SecurityPolicy';
+import { JWT_SECRET, TWO_FACTOR_ISSUER, TWO_FACTOR_CHALLENGE_EXPIRY } from '../config/config';
+import { generateTotpSecret, getTotpUri, verifyTotp } from '../utils/totp';
+
+const ROLES = ['admin', 'user', 'guest'];
+const RECOVERY_CODE_COUNT = 10;
+
+// Wrong codes in a row after which codes are refused for a while
+const MAX_FAILURES = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+const SECRET_FIELDS = '+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep +twoFactorFailures +twoFactorLastFailureAt';
+
+// "Login" challenges wait for the code of an enabled 2FA, "setup" challenges let a user
+// whose role requires 2FA enroll before being able to sign in
+type ChallengePurpose = 'login' | 'setup';
+
+// Recovery codes look like "3f9a-c27e", they are compared without dash and case
+const hashRecoveryCode = (code: unknown) =>
+    crypto.createHash('sha256').update(String(code ?? '').replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+
+const generateRecoveryCodes = () => {
+    const codes = [];
+    for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+        const hex = crypto.randomBytes(4).toString('hex');
+        codes.push(`${hex.slice(0, 4)}-${hex.slice(4)}`);
+    }
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+// Sign every other session of a user out, e.g. once their sign-in rules changed
+const revokeOtherSessions = (userId: mongoose.Types.ObjectId, currentSessionId?: string) =>
+    Session.updateMany(
+        { user: userId, revokedAt: { $exists: false }, ...(currentSessionId ? { _id: { $ne: currentSessionId } } : {}) },
+        { revokedAt: new Date() }
+    );
+
+// Token proving the password was checked, exchanged for a session once the second step is done
+export const signTwoFactorChallenge = (user: IUser, purpose: ChallengePurpose) =>
+    jwt.sign({ userId: user._id, twoFactor: purpose }, JWT_SECRET as string, {
+        expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY,
+    });
+
+// User id of a valid challenge token, null otherwise
+export const verifyTwoFactorChallenge = (token: unknown, purpose: ChallengePurpose): string | null => {
+    if (typeof token !== 'string') {
+        return null;
+    }
+    try {
+        const decoded: any = jwt.verify(token, JWT_SECRET as string);
+        return decoded.twoFactor === purpose ? decoded.userId : null;
+    } catch {
+        return null;
+    }
+};
+
+// Whether admins made 2FA mandatory for a role
+export const isTwoFactorRequired = async (role: string) => {
+    const policy = await SecurityPolicy.findOne({ key: 'default' });
+    return !!policy && policy.twoFactorRequiredRoles.includes(role);
+};
+
+// Check a TOTP code, or a recovery code which is then used up.
+// Returns the user when accepted, or the status and message to respond with.
+export const checkSecondFactor = async (
+    userId: unknown,
+    { code, recoveryCode }: { code?: unknown; recoveryCode?: unknown }
+): Promise<{ user?: IUser; status: number; message: string }> => {
+    const user = await User.findById(userId).select(SECRET_FIELDS);
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+        return { status: 400, message: 'Two-factor authentication is not enabled' };
+    }
+    if (
+        user.twoFactorFailures >= MAX_FAILURES &&
+        user.twoFactorLastFailureAt &&
+        Date.now() - user.twoFactorLastFailureAt.getTime() < LOCKOUT_MS
+    ) {
+        return { status: 429, message: 'Too many wrong codes, try again later' };
+    }
+
+    // Both updates only succeed once, so the same code can't be accepted twice in parallel
+    let accepted = false;
+    if (recoveryCode !== undefined) {
+        const hash = hashRecoveryCode(recoveryCode);
+        const { modifiedCount } = await User.updateOne(
+            { _id: user._id, twoFactorRecoveryCodes: hash },
+            { $pull: { twoFactorRecoveryCodes: hash } }
+        );
+        accepted = modifiedCount === 1;
+    } else {
+        const step = verifyTotp(user.twoFactorSecret, code, user.twoFactorLastUsedStep ?? -1);
+        if (step !== null) {
+            const { modifiedCount } = await User.updateOne(
+                {
+                    _id: user._id,
+                    $or: [{ twoFactorLastUsedStep: { $exists: false } }, { twoFactorLastUsedStep: { $lt: step } }],
+                },
+                { twoFactorLastUsedStep: step }
+            );
+            accepted = modifiedCount === 1;
+        }
+    }
+
+    if (!accepted) {
+        await User.updateOne({ _id: user._id }, { $inc: { twoFactorFailures: 1 }, twoFactorLastFailureAt: new Date() });
+        return { status: 401, message: 'Invalid two-factor code' };
+    }
+    if (user.twoFactorFailures > 0) {
+        await User.updateOne({ _id: user._id }, { twoFactorFailures: 0 });
+    }
+    return { user, status: 200, message: 'OK' };
+};
+
+// Signed-in user, or the one a setup challenge was issued for
+const findEnrollingUser = async (req: Request) => {
+    const userId = req.user?._id || verifyTwoFactorChallenge(req.body.challengeToken, 'setup');
+    return userId ? User.findById(userId).select(SECRET_FIELDS) : null;
+};
+
+// POST /auth/2fa/setup
+export const setupTwoFactor = async (req: Request, res: Response) => {
+    try {
+        const user = await findEnrollingUser(req);
+        if (!user) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        if (user.twoFactorEnabled) {
+            return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+        }
+
+        // Not active until a code generated from it was verified
+        const secret = generateTotpSecret();
+        await User.updateOne({ _id: user._id }, { twoFactorPendingSecret: secret });
+
+        res.json({ secret, otpauthUri: getTotpUri(secret, user.username, TWO_FACTOR_ISSUER) });
+    } catch (error) {
+        console.error('Error setting up two-factor authentication:', error);
+        res.status(500).json({ message: 'Server error' });
+    }
+};
+
+// POST /auth/2fa/enable
+export const enableTwoFactor = async (req: Request, res: Response) => {
+    try {
+        const user = await findEnrollingUser(req);
+        if (!user) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        if (user.twoFactorEnabled) {
+            return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+        }
+        if (!user.twoFactorPendingSecret) {
+            return res.status(400).json({ message: 'Start the setup first' });
+        }
+
+        const step = verifyTotp(user.twoFactorPendingSecret, req.body.code);
+        if (step === null) {
+            return res.status(400).json({ message: 'Invalid two-factor code' });
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+        await User.updateOne(
+            { _id: user._id },
+            {
+                twoFactorEnabled: true,
+                twoFactorSecret: user.twoFactorPendingSecret,
+                twoFactorRecoveryCodes: hashes,
+                twoFactorLastUsedStep: step,
+                twoFactorFailures: 0,
+                $unset: { twoFactorPendingSecret: 1 },
+            }
+        );
+
+        // Other devices only ever gave the password
+        await revokeOtherSessions(user._id as mongoose.Types.ObjectId, req.sessionId);
+
+        // The codes are only shown this once
+        res.json({ message: 'Two-factor authentication enabled', recoveryCodes: codes });
+    } catch (error) {
+        console.error('Error enabling two-factor authentication:', error);
+        res.status(500).json({ message: 'Server error' });
+    }
+};
+
+// POST /auth/2fa/disable
+export const disableTwoFactor = async (req: Request, res: Response) => {
+    try {
+        const { password, code, recoveryCode } = req.body;
+
+        if (await isTwoFactorRequired(req.user.role)) {
+            return res.status(403).json({ message: 'Two-factor authentication is required for your role' });
+        }
+        if (typeof password !== 'string' || !(await bcrypt.compare(password, req.user.password))) {
+            return res.status(401).json({ message: 'Invalid credentials' });
+        }
+
+        const { user, status, message } = await checkSecondFactor(req.user._id, { code, recoveryCode });
+        if (!user) {
+            return res.status(status).json({ message });
+        }
+
+        await User.updateOne(
+            { _id: user._id },
+            {
+                twoFactorEnabled: false,
+                twoFactorFailures: 0,
+                $unset: {
+                    twoFactorSecret: 1,
+                    twoFactorPendingSecret: 1,
+                    twoFactorRecoveryCodes: 1,
+                    twoFactorLastUsedStep: 1,
+                    twoFactorLastFailureAt: 1,
+                },
+            }
+        );
+        res.json({ message: 'Two-factor authentication disabled' });
+    } catch (error) {
+        console.error('Error disabling two-factor authentication:', error);
+        res.status(500).json({ message: 'Server error' });
+    }
+};
+
+// POST /auth/2fa/recovery-codes
+export const regenerateRecoveryCodes = async (req: Request, res: Response) => {
+    try {
+        const { user, status, message } = await checkSecondFactor(req.user._id, { code: req.body.code });
+        if (!user) {
+            return res.status(status).json({ message });
+        }
+
+        // Replaces every earlier code
+        const { codes, hashes } = generateRecoveryCodes();
+        await User.updateOne({ _id: user._id }, { twoFactorRecoveryCodes: hashes });
+
+        res.json({ recoveryCodes: codes });
+    } catch (error) {
+        console.error('Error generating recovery codes:', error);
+        res.status(500).json({ message: 'Server error' });
+    }
+};
+
+// GET /auth/2fa/policy
+export const getTwoFactorPolicy = async (req: Request, res: Response) => {
+    try {
+        const policy = await SecurityPolicy.findOne({ key: 'default' });
+        res.json({ requiredRoles: policy?.twoFactorRequiredRoles || [] });
+    } catch (error) {
+        console.error('Error fetching two-factor policy:', error);
+        res.status(500).json({ message: 'Server error' });
+    }
+};
+
+// PUT /auth/2fa/policy
+export const updateTwoFactorPolicy = async (req: Request, res: Response) => {
+    try {
+        const { requiredRoles } = req.body;
+        if (!Array.isArray(requiredRoles) || requiredRoles.some((role) => !ROLES.includes(role))) {
+            return res.status(400).json({ message: `requiredRoles must only contain ${ROLES.join(', ')}` });
+        }
+        // Would sign the admin out with no way back in but the setup flow
+        if (requiredRoles.includes(req.user.role) && !req.user.twoFactorEnabled) {
+            return res.status(400).json({ message: 'Enable two-factor authentication for your own account first' });
+        }
+
+        const roles = [...new Set<string>(requiredRoles)];
+        await SecurityPolicy.findOneAndUpdate(
+            { key: 'default' },
+            { twoFactorRequiredRoles: roles, updatedBy: req.user._id, updatedAt: new Date() },
+            { upsert: true }
+        );
+
+        // Users of these roles without 2FA have to go through the setup at their next sign-in
+        const affected = await User.find({ role: { $in: roles }, twoFactorEnabled: { $ne: true } }).distinct('_id');
+        await Session.updateMany(
+            { user: { $in: affected }, revokedAt: { $exists: false } },
+            { revokedAt: new Date() }
+        );
+
+        res.json({ requiredRoles: roles });
+    } catch (error) {
+        console.error('Error updating two-factor policy:', error);
+        res.status(500).json({ message: 'Server error' });
+    }
+};
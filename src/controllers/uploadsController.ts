@@ -0,0 +1,297 @@
+// controllers/uploadsController.ts
+import { Request, Response } from 'express';
+import fs from 'fs';
+import path from 'path';
+import ChunkUpload from '../models/ChunkUpload';
+import TusUpload from '../models/TusUpload';
+import { UPLOAD_IDLE_TIMEOUT_HOURS, TUS_UPLOAD_EXPIRY_HOURS } from '../config/config';
+import { CHUNK_DIR, removeChunkUpload } from '../utils/chunkStore';
+import { resolveSafePath } from '../utils/safePath';
+import { getAssemblyJob, getRunningAssemblyJob, subscribeToAssemblyJob, toJobStatus, AssemblyJob } from '../utils/assemblyJobs';
+import { removeTusUpload } from './tusController';
+
+// storageController.uploadChunk keeps its chunks in storage/.temp/<file path>/chunk_<n>,
+// next to the "uploads" staging folder of multer and items parked by a permanent delete
+const storageTempDir = path.join(__dirname, '../storage/.temp');
+const STORAGE_TEMP_RESERVED = /^(uploads|delete-.*)$/;
+
+// Entries of temp_chunks that are not chunk folders of an upload
+const CHUNK_DIR_RESERVED = new Set(['tus']);
+
+type UploadType = 'chunked' | 'storage' | 'tus';
+
+interface UploadSession {
+    type: UploadType;
+    id: string;
+    fileName: string;
+    destination: string;
+    owner?: string;
+    shareCode?: string;
+    receivedChunks?: number;
+    totalChunks?: number;
+    sizeOnDisk: number;
+    createdAt?: Date;
+    lastActivityAt: Date;
+}
+
+// Bytes and latest modification below a file or folder, null when it does not exist.
+// A folder counts as modified when its newest file was, so removing files does not make it look active.
+const measure = async (fullPath: string): Promise<{ size: number; modifiedAt: Date } | null> => {
+    let stats: fs.Stats;
+    try {
+        stats = await fs.promises.stat(fullPath);
+    } catch {
+        return null;
+    }
+    if (!stats.isDirectory()) {
+        return { size: stats.size, modifiedAt: stats.mtime };
+    }
+
+    let size = 0;
+    let modifiedAt: Date | undefined;
+    for (const name of await fs.promises.readdir(fullPath)) {
+        const child = await measure(path.join(fullPath, name));
+        if (child) {
+            size += child.size;
+            modifiedAt = modifiedAt && modifiedAt > child.modifiedAt ? modifiedAt : child.modifiedAt;
+        }
+    }
+    return { size, modifiedAt: modifiedAt || stats.mtime };
+};
+
+// Folders below storage/.temp that hold chunks of storageController.uploadChunk
+const findStorageTempUploads = async (relativeDir = ''): Promise<string[]> => {
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.promises.readdir(path.join(storageTempDir, relativeDir), { withFileTypes: true });
+    } catch {
+        return [];
+    }
+
+    const found: string[] = [];
+    if (relativeDir && entries.some((entry) => entry.isFile() && /^chunk_\d+$/.test(entry.name))) {
+        found.push(relativeDir);
+    }
+    for (const entry of entries) {
+        if (entry.isDirectory() && !(relativeDir === '' && STORAGE_TEMP_RESERVED.test(entry.name))) {
+            found.push(...await findStorageTempUploads(path.join(relativeDir, entry.name)));
+        }
+    }
+    return found;
+};
+
+// Every upload that was started and is not finished yet
+const listUploadSessions = async (): Promise<UploadSession[]> => {
+    const sessions: UploadSession[] = [];
+
+    for (const upload of await ChunkUpload.find().lean()) {
+        const disk = await measure(path.join(CHUNK_DIR, upload.uploadId));
+        sessions.push({
+            type: 'chunked',
+            id: upload.uploadId,
+            fileName: upload.fileName,
+            destination: upload.path,
+            owner: upload.createdBy?.toString(),
+            shareCode: upload.shareCode,
+            receivedChunks: upload.receivedChunks.length,
+            totalChunks: upload.totalChunks,
+            sizeOnDisk: disk?.size || 0,
+            createdAt: upload.createdAt,
+            lastActivityAt: upload.lastActivityAt || upload.createdAt,
+        });
+    }
+
+    for (const filePath of await findStorageTempUploads()) {
+        const disk = await measure(path.join(storageTempDir, filePath));
+        const chunks = await fs.promises.readdir(path.join(storageTempDir, filePath));
+        sessions.push({
+            type: 'storage',
+            id: filePath,
+            fileName: path.basename(filePath),
+            destination: path.dirname(filePath) === '.' ? '' : path.dirname(filePath),
+            receivedChunks: chunks.filter((name) => /^chunk_\d+$/.test(name)).length,
+            sizeOnDisk: disk?.size || 0,
+            lastActivityAt: disk?.modifiedAt || new Date(0),
+        });
+    }
+
+    for (const upload of await TusUpload.find().lean()) {
+        sessions.push({
+            type: 'tus',
+            id: upload.uploadId,
+            fileName: upload.fileName,
+            destination: `${upload.target}:${upload.destination}`,
+            owner: upload.createdBy?.toString(),
+            sizeOnDisk: upload.offset,
+            createdAt: upload.createdAt,
+            // tus uploads expire a fixed time after their last PATCH
+            lastActivityAt: new Date(upload.expiresAt.getTime() - TUS_UPLOAD_EXPIRY_HOURS * 3600000),
+        });
+    }
+
+    return sessions.sort((a, b) => b.lastActivityAt.getTime() - a.lastActivityAt.getTime());
+};
+
+// Cancel one upload, false when there is no such upload
+const cancelUploadSession = async (type: string, id: string) => {
+    if (type === 'chunked') {
+        const upload = await ChunkUpload.findOne({ uploadId: id });
+        if (upload) {
+            await removeChunkUpload(upload);
+        }
+        return !!upload;
+    }
+    if (type === 'tus') {
+        const upload = await TusUpload.findOne({ uploadId: id });
+        if (upload) {
+            await removeTusUpload(upload);
+        }
+        return !!upload;
+    }
+    if (type === 'storage') {
+        const relativePath = resolveSafePath(storageTempDir, id);
+        if (relativePath === null || !(await findStorageTempUploads()).includes(relativePath)) {
+            return false;
+        }
+        await fs.promises.rm(path.join(storageTempDir, relativePath), { recursive: true, force: true });
+        return true;
+    }
+    return false;
+};
+
+// Remove chunked uploads that received nothing for UPLOAD_IDLE_TIMEOUT_HOURS, with their chunks.
+// Also catches chunk folders and multer leftovers that no upload record points to anymore.
+export const purgeAbandonedUploads = async () => {
+    try {
+        const cutoff = new Date(Date.now() - UPLOAD_IDLE_TIMEOUT_HOURS * 3600000);
+        let removed = 0;
+
+        const idle = await ChunkUpload.find({
+            $or: [
+                { lastActivityAt: { $lt: cutoff } },
+                { lastActivityAt: { $exists: false }, createdAt: { $lt: cutoff } },
+            ],
+        });
+        for (const upload of idle) {
+            if (getRunningAssemblyJob(upload.uploadId)) {
+                continue;
+            }
+            await removeChunkUpload(upload);
+            removed++;
+        }
+
+        const activeIds = new Set(await ChunkUpload.distinct('uploadId'));
+        for (const name of await fs.promises.readdir(CHUNK_DIR).catch(() => [] as string[])) {
+            if (CHUNK_DIR_RESERVED.has(name) || activeIds.has(name)) {
+                continue;
+            }
+            const disk = await measure(path.join(CHUNK_DIR, name));
+            if (disk && disk.modifiedAt < cutoff) {
+                await fs.promises.rm(path.join(CHUNK_DIR, name), { recursive: true, force: true });
+                removed++;
+            }
+        }
+
+        for (const filePath of await findStorageTempUploads()) {
+            const disk = await measure(path.join(storageTempDir, filePath));
+            if (disk && disk.modifiedAt < cutoff) {
+                await fs.promises.rm(path.join(storageTempDir, filePath), { recursive: true, force: true });
+                removed++;
+            }
+        }
+
+        // Files multer staged for requests that never finished
+        const multerDir = path.join(storageTempDir, 'uploads');
+        for (const name of await fs.promises.readdir(multerDir).catch(() => [] as string[])) {
+            const disk = await measure(path.join(multerDir, name));
+            if (disk && disk.modifiedAt < cutoff) {
+                await fs.promises.rm(path.join(multerDir, name), { force: true });
+                removed++;
+            }
+        }
+
+        if (removed > 0) {
+            console.log(`Removed ${removed} abandoned upload(s)`);
+        }
+    } catch (error) {
+        console.error('Error purging abandoned uploads:', error);
+    }
+};
+
+// GET /admin/uploads
+export const listUploads = async (req: Request, res: Response) => {
+    try {
+        const uploads = await listUploadSessions();
+        res.status(200).json({
+            idleTimeoutHours: UPLOAD_IDLE_TIMEOUT_HOURS,
+            totalSizeOnDisk: uploads.reduce((sum, upload) => sum + upload.sizeOnDisk, 0),
+            uploads,
+        });
+    } catch (error) {
+        console.error('Error listing uploads:', error);
+        res.status(500).json({ message: 'Error listing uploads' });
+    }
+};
+
+// DELETE /admin/uploads/:type/:id
+export const cancelUpload = async (req: Request, res: Response) => {
+    try {
+        const { type, id } = req.params;
+        if (type === 'chunked' && getRunningAssemblyJob(id)) {
+            return res.status(409).json({ message: 'Upload is being assembled' });
+        }
+        if (!(await cancelUploadSession(type, id))) {
+            return res.status(404).json({ message: 'Upload not found' });
+        }
+        res.status(200).json({ message: 'Upload cancelled' });
+    } catch (error) {
+        console.error('Error cancelling upload:', error);
+        res.status(500).json({ message: 'Error cancelling upload' });
+    }
+};
+
+// Jobs of signed-in users are only shown to them, anonymous jobs to anyone who has the job id
+const findVisibleJob = (req: Request) => {
+    const job = getAssemblyJob(req.params.jobId);
+    if (!job || (job.owner && job.owner !== String(req.user?._id))) {
+        return undefined;
+    }
+    return job;
+};
+
+// GET /uploads/jobs/:jobId
+export const getAssemblyJobStatus = async (req: Request, res: Response) => {
+    const job = findVisibleJob(req);
+    if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+    }
+    res.status(200).json(toJobStatus(job));
+};
+
+// GET /uploads/jobs/:jobId/events
+// Server-sent events: "progress" while the file is assembled, then one "completed" or "failed"
+export const streamAssemblyJob = async (req: Request, res: Response) => {
+    const job = findVisibleJob(req);
+    if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+    });
+
+    const send = (update: AssemblyJob) => {
+        const event = update.status === 'assembling' ? 'progress' : update.status;
+        res.write(`event: ${event}\ndata: ${JSON.stringify(toJobStatus(update))}\n\n`);
+        if (update.status !== 'assembling') {
+            unsubscribe();
+            res.end();
+        }
+    };
+    const unsubscribe = subscribeToAssemblyJob(job.jobId, send);
+    req.on('close', unsubscribe);
+
+    send(job);
+};
@@ -2,11 +2,15 @@
 
 import { Request, Response } from 'express';
 import User from '../models/User';
+import Session from '../models/Session';
 import bcrypt from 'bcrypt';
 import { check, validationResult } from 'express-validator';
 import multer from "multer";
 import path from 'path';
 import fs from 'fs';
+import { resolveSafePath, safeFileName, invalidFileNameError } from '../utils/safePath';
+
+const profileImagesDir = path.join(__dirname, '../uploads/profile_images');
 
 
 // Get user profile
@@ -49,6 +53,12 @@ export const changePassword = async (req: Request, res: Response) => {
         user.password = hashedPassword;
         await user.save();
 
+        // Sign out every other device, the current session stays
+        await Session.updateMany(
+            { user: user._id, _id: { $ne: req.sessionId }, revokedAt: { $exists: false } },
+            { revokedAt: new Date() }
+        );
+
         res.json({ message: 'Password updated successfully' });
     } catch (error) {
         console.error('Error updating password:', error);
@@ -83,11 +93,13 @@ export const updateProfile = async (req: Request, res: Response) => {
 // Configure multer for file uploads
 const storage = multer.diskStorage({
     destination: (req, file, cb) => {
-        const uploadPath = path.join(__dirname, '../uploads/profile_images');
-        fs.mkdirSync(uploadPath, { recursive: true });
-        cb(null, uploadPath);
+        fs.mkdirSync(profileImagesDir, { recursive: true });
+        cb(null, profileImagesDir);
     },
     filename: (req, file, cb) => {
+        if (safeFileName(file.originalname) === null) {
+            return cb(invalidFileNameError(file.originalname), '');
+        }
         const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
         const ext = path.extname(file.originalname);
         cb(null, `${req.user._id}-${uniqueSuffix}${ext}`);
@@ -111,7 +123,7 @@ export const uploadProfileImage = async (req: Request, res: Response) => {
 
         // Delete old profile image if it exists
         if (user.image) {
-            const oldImagePath = path.join(__dirname, '../uploads/profile_images', user.image);
+            const oldImagePath = path.join(profileImagesDir, user.image);
             if (fs.existsSync(oldImagePath)) {
                 fs.unlinkSync(oldImagePath);
             }
@@ -131,9 +143,12 @@ export const uploadProfileImage = async (req: Request, res: Response) => {
 // Serve profile image
 export const getProfileImage = async (req: Request, res: Response) => {
     try {
-        const { filename } = req.params;
-        const imagePath = path.join(__dirname, '../uploads/profile_images', filename);
+        const filename = resolveSafePath(profileImagesDir, req.params.filename);
+        if (filename === null || safeFileName(filename) === null) {
+            return res.status(400).json({ message: 'Invalid filename' });
+        }
 
+        const imagePath = path.join(profileImagesDir, filename);
         if (fs.existsSync(imagePath)) {
             res.sendFile(imagePath);
         } else {
@@ -0,0 +1,66 @@
+// drivers/index.ts
+
+import fs from 'fs';
+import path from 'path';
+import { S3Client } from '@aws-sdk/client-s3';
+import { StorageArea, StorageDriver } from './storageDriver';
+import { createLocalDriver } from './localDriver';
+import { createS3Driver } from './s3Driver';
+import {
+    STORAGE_DRIVERS,
+    S3_ENDPOINT,
+    S3_REGION,
+    S3_BUCKET,
+    S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY,
+    S3_FORCE_PATH_STYLE,
+} from '../config/config';
+
+export * from './storageDriver';
+
+const drivers = new Map<StorageArea, StorageDriver>();
+let s3Client: S3Client | undefined;
+
+const getS3Client = () => {
+    if (!s3Client) {
+        s3Client = new S3Client({
+            endpoint: S3_ENDPOINT,
+            region: S3_REGION,
+            forcePathStyle: S3_FORCE_PATH_STYLE,
+            credentials: S3_ACCESS_KEY_ID && S3_SECRET_ACCESS_KEY
+                ? { accessKeyId: S3_ACCESS_KEY_ID, secretAccessKey: S3_SECRET_ACCESS_KEY }
+                : undefined,
+        });
+    }
+    return s3Client;
+};
+
+// Driver configured for an area, the S3 driver keeps each area under its own prefix
+export const getStorageDriver = (area: StorageArea): StorageDriver => {
+    let driver = drivers.get(area);
+    if (driver) {
+        return driver;
+    }
+
+    const type = STORAGE_DRIVERS[area];
+    if (type === 's3') {
+        if (!S3_BUCKET) {
+            throw new Error(`S3_BUCKET must be set to use the s3 driver for ${area}`);
+        }
+        driver = createS3Driver(getS3Client(), S3_BUCKET, area);
+    } else if (type === 'local') {
+        driver = createLocalDriver(path.join(__dirname, '..', area));
+    } else {
+        throw new Error(`Unknown storage driver "${type}" for ${area}`);
+    }
+
+    drivers.set(area, driver);
+    return driver;
+};
+
+// Local folder where uploads for an area are staged before they are handed to its driver
+export const getStagingDir = (area: StorageArea) => {
+    const dir = path.join(__dirname, '../temp_uploads', area);
+    fs.mkdirSync(dir, { recursive: true });
+    return dir;
+};
@@ -0,0 +1,127 @@
+// drivers/localDriver.ts
+
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { StorageDriver, StorageStats } from './storageDriver';
+
+const pipeline = promisify(require('stream').pipeline);
+
+// Flush a file or folder to disk
+const syncPath = async (fullPath: string) => {
+    const handle = await fs.promises.open(fullPath, 'r');
+    try {
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+};
+
+const toStats = (itemPath: string, stats: fs.Stats): StorageStats => ({
+    name: path.basename(itemPath),
+    path: itemPath,
+    isFile: stats.isFile(),
+    isDirectory: stats.isDirectory(),
+    size: stats.size,
+    modifiedAt: stats.mtime,
+    createdAt: stats.birthtime,
+});
+
+// Driver for a folder on local disk
+export const createLocalDriver = (rootDir: string): StorageDriver => {
+    fs.mkdirSync(rootDir, { recursive: true });
+
+    const resolve = (itemPath: string) => path.join(rootDir, itemPath);
+
+    return {
+        type: 'local',
+
+        async list(dirPath) {
+            const items = await fs.promises.readdir(resolve(dirPath), { withFileTypes: true });
+            const results: StorageStats[] = [];
+
+            for (const item of items) {
+                if (!item.isFile() && !item.isDirectory()) {
+                    continue; // Skip symlinks, sockets, etc.
+                }
+                const itemPath = path.join(dirPath, item.name);
+                try {
+                    results.push(toStats(itemPath, await fs.promises.stat(resolve(itemPath))));
+                } catch (error) {
+                    console.error('Error reading item stats:', error);
+                }
+            }
+
+            return results;
+        },
+
+        async stat(itemPath) {
+            const stats = await fs.promises.stat(resolve(itemPath)).catch(() => null);
+            return stats ? toStats(itemPath, stats) : null;
+        },
+
+        async createReadStream(itemPath, range) {
+            const stream = fs.createReadStream(resolve(itemPath), range);
+            // Surface a missing file here instead of as a stream error
+            await new Promise<void>((res, rej) => stream.once('open', () => res()).once('error', rej));
+            return stream;
+        },
+
+        createWriteStream(itemPath) {
+            fs.mkdirSync(path.dirname(resolve(itemPath)), { recursive: true });
+            return fs.createWriteStream(resolve(itemPath));
+        },
+
+        async putFile(localPath, itemPath, options = {}) {
+            const target = resolve(itemPath);
+            await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+            // link() fails with EEXIST instead of replacing the target like rename() does
+            const place = async (source: string) => {
+                if (options.exclusive) {
+                    await fs.promises.link(source, target);
+                    await fs.promises.rm(source, { force: true });
+                } else {
+                    await fs.promises.rename(source, target);
+                }
+            };
+
+            try {
+                await place(localPath);
+            } catch (error: any) {
+                if (error.code !== 'EXDEV') {
+                    throw error;
+                }
+                // Staging folder is on another device, copy next to the target first so the file still appears in one step
+                const partial = path.join(path.dirname(target), `.${path.basename(target)}.${Date.now()}.part`);
+                try {
+                    await pipeline(fs.createReadStream(localPath), fs.createWriteStream(partial));
+                    await syncPath(partial);
+                    await place(partial);
+                } finally {
+                    await fs.promises.rm(partial, { force: true });
+                }
+                await fs.promises.rm(localPath, { force: true });
+            }
+            // Persist the new directory entry
+            await syncPath(path.dirname(target));
+        },
+
+        async rename(oldPath, newPath) {
+            await fs.promises.mkdir(path.dirname(resolve(newPath)), { recursive: true });
+            await fs.promises.rename(resolve(oldPath), resolve(newPath));
+        },
+
+        async remove(itemPath) {
+            await fs.promises.rm(resolve(itemPath), { recursive: true, force: true });
+        },
+
+        async mkdir(dirPath) {
+            await fs.promises.mkdir(resolve(dirPath), { recursive: true });
+        },
+
+        localPath(itemPath) {
+            return resolve(itemPath);
+        },
+    };
+};
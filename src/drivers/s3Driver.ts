@@ -0,0 +1,312 @@
+// drivers/s3Driver.ts
+
+import fs from 'fs';
+import path from 'path';
+import { PassThrough, Readable, Writable } from 'stream';
+import { promisify } from 'util';
+import mime from 'mime-types';
+import {
+    S3Client,
+    ListObjectsV2Command,
+    HeadObjectCommand,
+    GetObjectCommand,
+    PutObjectCommand,
+    CopyObjectCommand,
+    DeleteObjectsCommand,
+    CreateMultipartUploadCommand,
+    UploadPartCopyCommand,
+    CompleteMultipartUploadCommand,
+    AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { StorageDriver, StorageStats, notFoundError, existsError } from './storageDriver';
+
+const pipeline = promisify(require('stream').pipeline);
+
+// CopyObject is limited to 5 GB, bigger objects are copied in parts
+const MAX_SINGLE_COPY_SIZE = 5 * 1024 * 1024 * 1024;
+const COPY_PART_SIZE = 1024 * 1024 * 1024;
+
+const isNotFound = (error: any) =>
+    error?.name === 'NotFound' || error?.name === 'NoSuchKey' || error?.$metadata?.httpStatusCode === 404;
+
+// Driver for a prefix in an S3-compatible bucket (AWS, MinIO, ...).
+// Folders are key prefixes, empty folders are kept as "<folder>/" marker objects.
+export const createS3Driver = (client: S3Client, bucket: string, prefix: string): StorageDriver => {
+    const fileKey = (itemPath: string) => path.posix.join(prefix, itemPath).replace(/^\/+/, '');
+    const folderKey = (dirPath: string) => {
+        const key = fileKey(dirPath);
+        return key === '.' || key === '' ? '' : key.endsWith('/') ? key : `${key}/`;
+    };
+    const copySource = (key: string) => `${bucket}/${key.split('/').map(encodeURIComponent).join('/')}`;
+
+    // Folders only have a time when they have a marker object, prefixes alone don't carry one
+    const folderStats = (itemPath: string, modifiedAt: Date | null = null): StorageStats => ({
+        name: path.posix.basename(itemPath),
+        path: itemPath,
+        isFile: false,
+        isDirectory: true,
+        size: 0,
+        modifiedAt,
+        createdAt: modifiedAt,
+    });
+
+    const fileStats = (itemPath: string, size: number, modifiedAt: Date): StorageStats => ({
+        name: path.posix.basename(itemPath),
+        path: itemPath,
+        isFile: true,
+        isDirectory: false,
+        size,
+        modifiedAt,
+        createdAt: modifiedAt,
+    });
+
+    // Every key below a folder, markers included
+    const listKeys = async (keyPrefix: string) => {
+        const objects: { key: string; size: number }[] = [];
+        let token: string | undefined;
+        do {
+            const output = await client.send(new ListObjectsV2Command({
+                Bucket: bucket,
+                Prefix: keyPrefix,
+                ContinuationToken: token,
+            }));
+            for (const object of output.Contents || []) {
+                objects.push({ key: object.Key!, size: object.Size || 0 });
+            }
+            token = output.NextContinuationToken;
+        } while (token);
+        return objects;
+    };
+
+    const deleteKeys = async (keys: string[]) => {
+        for (let i = 0; i < keys.length; i += 1000) {
+            await client.send(new DeleteObjectsCommand({
+                Bucket: bucket,
+                Delete: { Objects: keys.slice(i, i + 1000).map((Key) => ({ Key })), Quiet: true },
+            }));
+        }
+    };
+
+    const copyObject = async (sourceKey: string, destinationKey: string, size: number) => {
+        if (size <= MAX_SINGLE_COPY_SIZE) {
+            await client.send(new CopyObjectCommand({
+                Bucket: bucket,
+                Key: destinationKey,
+                CopySource: copySource(sourceKey),
+            }));
+            return;
+        }
+
+        const { UploadId } = await client.send(new CreateMultipartUploadCommand({
+            Bucket: bucket,
+            Key: destinationKey,
+            ContentType: mime.lookup(destinationKey) || 'application/octet-stream',
+        }));
+        try {
+            const parts = [];
+            for (let start = 0, partNumber = 1; start < size; start += COPY_PART_SIZE, partNumber++) {
+                const end = Math.min(start + COPY_PART_SIZE, size) - 1;
+                const { CopyPartResult } = await client.send(new UploadPartCopyCommand({
+                    Bucket: bucket,
+                    Key: destinationKey,
+                    UploadId,
+                    PartNumber: partNumber,
+                    CopySource: copySource(sourceKey),
+                    CopySourceRange: `bytes=${start}-${end}`,
+                }));
+                parts.push({ ETag: CopyPartResult?.ETag, PartNumber: partNumber });
+            }
+            await client.send(new CompleteMultipartUploadCommand({
+                Bucket: bucket,
+                Key: destinationKey,
+                UploadId,
+                MultipartUpload: { Parts: parts },
+            }));
+        } catch (error) {
+            await client.send(new AbortMultipartUploadCommand({ Bucket: bucket, Key: destinationKey, UploadId }))
+                .catch(() => undefined);
+            throw error;
+        }
+    };
+
+    const driver: StorageDriver = {
+        type: 's3',
+
+        async list(dirPath) {
+            const keyPrefix = folderKey(dirPath);
+            const results: StorageStats[] = [];
+            let found = keyPrefix === folderKey('');
+            let token: string | undefined;
+
+            do {
+                const output = await client.send(new ListObjectsV2Command({
+                    Bucket: bucket,
+                    Prefix: keyPrefix,
+                    Delimiter: '/',
+                    ContinuationToken: token,
+                }));
+
+                for (const common of output.CommonPrefixes || []) {
+                    const name = common.Prefix!.slice(keyPrefix.length, -1);
+                    results.push(folderStats(path.posix.join(dirPath, name)));
+                    found = true;
+                }
+                for (const object of output.Contents || []) {
+                    found = true;
+                    if (object.Key === keyPrefix) {
+                        continue; // The folder's own marker
+                    }
+                    const name = object.Key!.slice(keyPrefix.length);
+                    results.push(fileStats(path.posix.join(dirPath, name), object.Size || 0, object.LastModified || new Date(0)));
+                }
+
+                token = output.NextContinuationToken;
+            } while (token);
+
+            if (!found) {
+                throw notFoundError(dirPath);
+            }
+            return results;
+        },
+
+        async stat(itemPath) {
+            if (folderKey(itemPath) === folderKey('')) {
+                return folderStats(itemPath);
+            }
+
+            try {
+                const head = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: fileKey(itemPath) }));
+                return fileStats(itemPath, head.ContentLength || 0, head.LastModified || new Date(0));
+            } catch (error) {
+                if (!isNotFound(error)) {
+                    throw error;
+                }
+            }
+
+            const output = await client.send(new ListObjectsV2Command({
+                Bucket: bucket,
+                Prefix: folderKey(itemPath),
+                MaxKeys: 1,
+            }));
+            const first = output.Contents?.[0];
+            if (!first) {
+                return null;
+            }
+            return folderStats(itemPath, first.Key === folderKey(itemPath) ? first.LastModified ?? null : null);
+        },
+
+        async createReadStream(itemPath, range) {
+            try {
+                const output = await client.send(new GetObjectCommand({
+                    Bucket: bucket,
+                    Key: fileKey(itemPath),
+                    Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+                }));
+                return output.Body as Readable;
+            } catch (error) {
+                throw isNotFound(error) ? notFoundError(itemPath) : error;
+            }
+        },
+
+        createWriteStream(itemPath) {
+            const body = new PassThrough();
+            const upload = new Upload({
+                client,
+                params: {
+                    Bucket: bucket,
+                    Key: fileKey(itemPath),
+                    Body: body,
+                    ContentType: mime.lookup(itemPath) || 'application/octet-stream',
+                },
+            });
+            const done = upload.done();
+
+            const writable = new Writable({
+                write(chunk, encoding, callback) {
+                    if (body.write(chunk, encoding)) {
+                        callback();
+                    } else {
+                        body.once('drain', () => callback());
+                    }
+                },
+                final(callback) {
+                    body.end();
+                    done.then(() => callback(), callback);
+                },
+                destroy(error, callback) {
+                    if (error) {
+                        upload.abort().catch(() => undefined);
+                    }
+                    body.destroy();
+                    callback(error);
+                },
+            });
+            done.catch((error) => writable.destroy(error));
+
+            return writable;
+        },
+
+        async putFile(localPath, itemPath, options = {}) {
+            if (options.exclusive) {
+                // The bucket refuses the write when the key exists, so two uploads can't both claim it
+                try {
+                    await new Upload({
+                        client,
+                        params: {
+                            Bucket: bucket,
+                            Key: fileKey(itemPath),
+                            Body: fs.createReadStream(localPath),
+                            ContentType: mime.lookup(itemPath) || 'application/octet-stream',
+                            IfNoneMatch: '*',
+                        },
+                    }).done();
+                } catch (error: any) {
+                    const status = error?.$metadata?.httpStatusCode;
+                    throw error?.name === 'PreconditionFailed' || status === 412 || status === 409
+                        ? existsError(itemPath)
+                        : error;
+                }
+            } else {
+                await pipeline(fs.createReadStream(localPath), driver.createWriteStream(itemPath));
+            }
+            await fs.promises.rm(localPath, { force: true });
+        },
+
+        async rename(oldPath, newPath) {
+            const stats = await driver.stat(oldPath);
+            if (!stats) {
+                throw notFoundError(oldPath);
+            }
+
+            if (stats.isFile) {
+                await copyObject(fileKey(oldPath), fileKey(newPath), stats.size);
+                await deleteKeys([fileKey(oldPath)]);
+                return;
+            }
+
+            const sourcePrefix = folderKey(oldPath);
+            const destinationPrefix = folderKey(newPath);
+            const objects = await listKeys(sourcePrefix);
+            for (const object of objects) {
+                await copyObject(object.key, destinationPrefix + object.key.slice(sourcePrefix.length), object.size);
+            }
+            await deleteKeys(objects.map((object) => object.key));
+        },
+
+        async remove(itemPath) {
+            const objects = await listKeys(folderKey(itemPath));
+            await deleteKeys([fileKey(itemPath), ...objects.map((object) => object.key)]);
+        },
+
+        async mkdir(dirPath) {
+            await client.send(new PutObjectCommand({ Bucket: bucket, Key: folderKey(dirPath), Body: '' }));
+        },
+
+        localPath() {
+            return null;
+        },
+    };
+
+    return driver;
+};
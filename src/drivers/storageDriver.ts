@@ -0,0 +1,54 @@
+// drivers/storageDriver.ts
+
+import { Readable, Writable } from 'stream';
+
+// Folders served by a driver, each maps to its own root (local folder or S3 prefix)
+export type StorageArea = 'storage' | 'share' | 'get_files' | 'images';
+
+export interface StorageStats {
+    name: string;
+    path: string;        // Relative to the area root
+    isFile: boolean;
+    isDirectory: boolean;
+    size: number;        // 0 for folders on drivers without real directories
+    modifiedAt: Date | null; // Always set for files, null for folders the driver keeps no time for (S3)
+    createdAt: Date | null;
+}
+
+// All paths are relative to the area root and already validated by the caller
+export interface StorageDriver {
+    readonly type: 'local' | 's3';
+
+    // Files and folders directly inside a folder, rejects with code ENOENT if it does not exist
+    list(dirPath: string): Promise<StorageStats[]>;
+
+    // null when nothing exists at the path
+    stat(itemPath: string): Promise<StorageStats | null>;
+
+    // Inclusive byte range, like fs.createReadStream
+    createReadStream(itemPath: string, range?: { start: number; end: number }): Promise<Readable>;
+
+    // Creates missing parent folders; 'finish' is only emitted once the data is stored
+    createWriteStream(itemPath: string): Writable;
+
+    // Move a finished file from local disk (upload staging) into the store, it appears complete or not at all.
+    // With `exclusive` an existing item is never replaced, the call rejects with code EEXIST instead.
+    putFile(localPath: string, itemPath: string, options?: { exclusive?: boolean }): Promise<void>;
+
+    // Files and folders, creates missing parent folders
+    rename(oldPath: string, newPath: string): Promise<void>;
+
+    // Files and folders (recursively), does nothing if the path does not exist
+    remove(itemPath: string): Promise<void>;
+
+    mkdir(dirPath: string): Promise<void>;
+
+    // Path on local disk, null for remote drivers
+    localPath(itemPath: string): string | null;
+}
+
+export const notFoundError = (itemPath: string) =>
+    Object.assign(new Error(`ENOENT: no such file or directory '${itemPath}'`), { code: 'ENOENT' });
+
+export const existsError = (itemPath: string) =>
+    Object.assign(new Error(`EEXIST: file already exists '${itemPath}'`), { code: 'EEXIST' });
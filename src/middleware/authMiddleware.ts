@@ -3,15 +3,64 @@
 import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
 import User from '../models/User';
+import Session from '../models/Session';
+import AccessToken, { TokenScope, ACCESS_TOKEN_PREFIX, hashAccessToken } from '../models/AccessToken';
 import { JWT_SECRET } from '../config/config';
 
 declare module 'express' {
     export interface Request {
         user?: any;
+        sessionId?: string; // Session of the access token
+        tokenScopes?: TokenScope[]; // Set when a personal access token was used instead of a session
     }
 }
 
-export const authenticateToken = (roles: string[]) => {
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Whether the request may do what `scope` covers. Sessions may do anything their role allows.
+export const hasScope = (req: Request, scope: TokenScope) => !req.tokenScopes || req.tokenScopes.includes(scope);
+
+// Personal access token auth: the token must exist, not be expired and carry one of `scopes`.
+// Routes without scopes are for signed-in users only (e.g. managing sessions or tokens).
+const authenticateAccessToken = async (
+    token: string,
+    roles: string[],
+    scopes: TokenScope[],
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    const accessToken = await AccessToken.findOne({ tokenHash: hashAccessToken(token) });
+    if (!accessToken || (accessToken.expiresAt && accessToken.expiresAt < new Date())) {
+        return res.status(401).json({ message: 'Unauthorized: Invalid or expired access token' });
+    }
+    if (scopes.length === 0) {
+        return res.status(403).json({ message: 'Forbidden: Personal access tokens can not be used here' });
+    }
+    if (!scopes.some((scope) => accessToken.scopes.includes(scope))) {
+        return res.status(403).json({ message: `Forbidden: Token needs the ${scopes.join(' or ')} scope` });
+    }
+
+    const user = await User.findById(accessToken.user);
+
+    if (!user) return res.status(401).json({ message: 'Unauthorized: Invalid token' });
+    if (!roles.includes(user.role)) return res.status(403).json({ message: 'Forbidden: Access denied' });
+
+    // Last-used time, written at most once a minute
+    if (!accessToken.lastUsedAt || Date.now() - accessToken.lastUsedAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+        await AccessToken.updateOne({ _id: accessToken._id }, { lastUsedAt: new Date() });
+    }
+
+    req.user = user;
+    req.tokenScopes = accessToken.scopes;
+
+    next();
+};
+
+// `scope` lets personal access tokens with that scope (or one of them) through as well
+export const authenticateToken = (roles: string[], scope?: TokenScope | TokenScope[]) => {
+    const scopes = scope === undefined ? [] : ([] as TokenScope[]).concat(scope);
+
     return async (req: Request, res: Response, next: NextFunction) => {
         const authHeader = req.headers['authorization'];
         const token = authHeader && authHeader.split(' ')[1];
@@ -19,16 +68,33 @@ export const authenticateToken = (roles: string[]) => {
         if (!token) return res.status(401).json({ message: 'Unauthorized: No token provided' });
 
         try {
-            const decoded: any = jwt.verify(token, JWT_SECRET);
+            if (token.startsWith(ACCESS_TOKEN_PREFIX)) {
+                return await authenticateAccessToken(token, roles, scopes, req, res, next);
+            }
+
+            const decoded: any = jwt.verify(token, JWT_SECRET as string);
+
+            // Every access token belongs to a session that can be revoked
+            const session = decoded.sessionId && await Session.findById(decoded.sessionId);
+            if (!session || session.revokedAt || !session.user.equals(decoded.userId)) {
+                return res.status(401).json({ message: 'Unauthorized: Session has been revoked' });
+            }
+
             const user = await User.findById(decoded.userId);
 
             if (!user) return res.status(401).json({ message: 'Unauthorized: Invalid token' });
             if (!roles.includes(user.role)) return res.status(403).json({ message: 'Forbidden: Access denied' });
 
+            // Last-used time, written at most once a minute
+            if (Date.now() - session.lastUsedAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+                await Session.updateOne({ _id: session._id }, { lastUsedAt: new Date() });
+            }
+
             req.user = user;
+            req.sessionId = String(session._id);
 
             next();
-        } catch (error) {
+        } catch (error: any) {
             if (error.name === 'TokenExpiredError') {
                 console.error('Token expired at:', error.expiredAt);
                 return res.status(401).json({ message: 'Unauthorized: Token has expired' });
@@ -39,3 +105,10 @@ export const authenticateToken = (roles: string[]) => {
         }
     };
 };
+
+// Like authenticateToken, but requests without a token go through anonymously
+export const authenticateOptionalToken = (roles: string[], scope?: TokenScope | TokenScope[]) => {
+    const authenticate = authenticateToken(roles, scope);
+    return (req: Request, res: Response, next: NextFunction) =>
+        req.headers['authorization'] ? authenticate(req, res, next) : next();
+};
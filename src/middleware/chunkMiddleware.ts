@@ -1,30 +1,43 @@
 // middleware/chunkMiddleware.ts
+import { Request, Response, NextFunction } from 'express';
 import multer from 'multer';
-import path from 'path';
 import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { CHUNK_DIR } from '../utils/chunkStore';
+import { CHUNK_MAX_SIZE } from '../config/config';
 
-// A dedicated directory for chunks
-const CHUNK_DIR = path.join(__dirname, '../temp_chunks');
 if (!fs.existsSync(CHUNK_DIR)) {
     fs.mkdirSync(CHUNK_DIR, { recursive: true });
 }
 
-// This storage simply places each chunk in /temp_chunks
+// Each chunk lands in /temp_chunks under a name of its own,
+// the controller moves it to its upload's folder once the fields are validated
 const storage = multer.diskStorage({
     destination: (req, file, cb) => {
         cb(null, CHUNK_DIR);
     },
     filename: (req, file, cb) => {
-        // We can keep the original name or make a custom name
-        // but we'll do it with the chunkIndex in the route
-        cb(null, file.originalname);
+        cb(null, `${uuidv4()}.part`);
     },
 });
 
-export const chunkUploadMiddleware = multer({
+const chunkUpload = multer({
     storage,
     limits: {
-        fileSize: Infinity, // Let the chunk be large, but typically each chunk is ~5-10MB
-        //fileSize: 6 * 1024 * 1024 * 1024, // 6 GB
+        fileSize: CHUNK_MAX_SIZE, // Chunks are typically ~5-10MB
+        files: 1,
     },
 });
+
+// Like multer's single(), but a chunk over CHUNK_MAX_SIZE is answered with a 413
+export const chunkUploadMiddleware = {
+    single: (fieldName: string) => (req: Request, res: Response, next: NextFunction) => {
+        chunkUpload.single(fieldName)(req, res, (err: any) => {
+            if (err instanceof multer.MulterError) {
+                const tooLarge = err.code === 'LIMIT_FILE_SIZE' || err.code === 'LIMIT_FILE_COUNT';
+                return res.status(tooLarge ? 413 : 400).json({ message: err.message });
+            }
+            next(err);
+        });
+    },
+};
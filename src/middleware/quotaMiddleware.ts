@@ -0,0 +1,56 @@
+// middleware/quotaMiddleware.ts
+
+import { Request, Response, NextFunction } from 'express';
+import fs from 'fs';
+import { checkQuota } from '../utils/storageUsage';
+
+// Reject uploads that would exceed the user's quota before any data is written
+export const enforceStorageQuota = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const requested = parseInt(req.headers['content-length'] || '0', 10);
+        const { allowed, quota, used } = await checkQuota(req.user, requested);
+
+        if (!allowed) {
+            return res.status(413).json({ message: 'Storage quota exceeded', quota, used, requested });
+        }
+
+        next();
+    } catch (error) {
+        console.error('Error checking storage quota:', error);
+        res.status(500).json({ message: 'Error checking storage quota' });
+    }
+};
+
+// Chunked uploads: Content-Length only covers one chunk, so the first chunk has to declare the size of
+// the whole file (totalSize) and the quota is checked against that. Runs once the body is parsed,
+// a chunk multer already stored is removed when it is refused.
+export const enforceChunkedUploadQuota = async (req: Request, res: Response, next: NextFunction) => {
+    const refuse = (status: number, body: object) => {
+        if (req.file) {
+            fs.rmSync(req.file.path, { force: true });
+        }
+        return res.status(status).json(body);
+    };
+
+    try {
+        const { chunkIndex, totalSize } = req.body || {};
+        const declared = totalSize !== undefined && totalSize !== '' ? Number(totalSize) : undefined;
+        if (declared !== undefined && !(Number.isSafeInteger(declared) && declared > 0)) {
+            return refuse(400, { message: 'Invalid totalSize' });
+        }
+        if (declared === undefined && String(chunkIndex) === '0') {
+            return refuse(400, { message: 'totalSize is required with the first chunk' });
+        }
+
+        const requested = declared ?? parseInt(req.headers['content-length'] || '0', 10);
+        const { allowed, quota, used } = await checkQuota(req.user, requested);
+        if (!allowed) {
+            return refuse(413, { message: 'Storage quota exceeded', quota, used, requested });
+        }
+
+        next();
+    } catch (error) {
+        console.error('Error checking storage quota:', error);
+        refuse(500, { message: 'Error checking storage quota' });
+    }
+};
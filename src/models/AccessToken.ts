@@ -0,0 +1,38 @@
+// models/AccessToken.ts
+import crypto from 'crypto';
+import mongoose, { Schema, Document } from 'mongoose';
+
+// What a personal access token may be used for, routes name the scope they need
+export const TOKEN_SCOPES = ['content:write', 'storage:read', 'storage:write', 'storage:manage', 'share:manage'] as const;
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+// Personal access tokens start with this, so they are told apart from JWTs without a lookup
+export const ACCESS_TOKEN_PREFIX = 'pat_';
+
+export const hashAccessToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export interface IAccessToken extends Document {
+    user: mongoose.Types.ObjectId;
+    name: string;
+    tokenHash: string;     // SHA-256 of the token, the token itself is only shown when created
+    prefix: string;        // First characters of the token, to recognise it in the list
+    scopes: TokenScope[];
+    expiresAt?: Date;      // Missing = never expires
+    lastUsedAt?: Date;
+    createdAt: Date;
+}
+
+const AccessTokenSchema = new Schema<IAccessToken>({
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    name: { type: String, required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    prefix: { type: String, required: true },
+    scopes: [{ type: String, enum: TOKEN_SCOPES }],
+    expiresAt: { type: Date },
+    lastUsedAt: { type: Date },
+    createdAt: { type: Date, default: Date.now },
+});
+
+AccessTokenSchema.index({ user: 1 });
+
+export default mongoose.model<IAccessToken>('AccessToken', AccessTokenSchema);
@@ -0,0 +1,31 @@
+// models/AddFilesCode.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IAddFilesCode extends Document {
+    code: string;
+    label?: string;
+    createdBy: mongoose.Types.ObjectId;
+    expiresAt: Date;
+    maxTotalSize: number;        // Bytes allowed in get_files/<code>
+    maxFiles: number;            // Number of files allowed in get_files/<code>
+    allowedMimeTypes: string[];  // Empty = any type, supports "image/*" wildcards
+    checksums: { fileName: string; sha256: string }[]; // Verified SHA-256 of files uploaded in chunks
+    createdAt: Date;
+}
+
+const AddFilesCodeSchema: Schema = new Schema({
+    code: { type: String, required: true, unique: true },
+    label: { type: String },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    expiresAt: { type: Date, required: true },
+    maxTotalSize: { type: Number, required: true },
+    maxFiles: { type: Number, required: true },
+    allowedMimeTypes: [{ type: String }],
+    checksums: [{ fileName: { type: String, required: true }, sha256: { type: String, required: true } }],
+    createdAt: { type: Date, default: Date.now },
+});
+
+AddFilesCodeSchema.index({ expiresAt: 1 });
+
+export default mongoose.model<IAddFilesCode>('AddFilesCode', AddFilesCodeSchema);
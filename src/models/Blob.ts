@@ -0,0 +1,19 @@
+// models/Blob.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IBlob extends Document {
+    hash: string;      // SHA-256 of the content, also the file name in storage/.blobs
+    size: number;
+    refCount: number;  // Number of FileRecords pointing at this blob
+    createdAt: Date;
+}
+
+const BlobSchema: Schema = new Schema({
+    hash: { type: String, required: true, unique: true },
+    size: { type: Number, required: true },
+    refCount: { type: Number, default: 0 },
+    createdAt: { type: Date, default: Date.now },
+});
+
+export default mongoose.model<IBlob>('Blob', BlobSchema);
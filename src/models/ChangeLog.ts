@@ -3,14 +3,16 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
 export interface IChangeLog extends Document {
-    user: mongoose.Types.ObjectId;
+    user?: mongoose.Types.ObjectId;   // Missing for anonymous actions made through a share link
+    shareCode?: string;               // Share link used for an anonymous action
     action: string;
     itemPath: string;
     timestamp: Date;
 }
 
 const ChangeLogSchema: Schema = new Schema({
-    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    user: { type: Schema.Types.ObjectId, ref: 'User' },
+    shareCode: { type: String },
     action: { type: String, required: true },
     itemPath: { type: String, required: true },
     timestamp: { type: Date, default: Date.now },
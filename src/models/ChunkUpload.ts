@@ -1,26 +1,40 @@
 // models/ChunkUpload.ts
 import mongoose, { Schema, Document } from 'mongoose';
+import { UPLOAD_IDLE_TIMEOUT_HOURS } from '../config/config';
 
 export interface IChunkUpload extends Document {
     uploadId: string;         // Unique identifier for the entire file upload
     fileName: string;         // Original file name
     totalChunks: number;      // Total number of chunks
-    receivedChunks: number;   // Number of chunks received so far
+    receivedChunks: number[]; // Indices of the chunks received so far, in any order
     path: string;             // The target path (folder) on your server
-    createdBy: mongoose.Types.ObjectId;
+    createdBy?: mongoose.Types.ObjectId; // Missing for anonymous uploads through a share link
+    shareCode?: string;                  // Share link an anonymous upload goes through
+    fileHash?: string;                   // SHA-256 of the whole file, sent with the first chunk
+    totalSize?: number;                  // Size of the whole file as declared with the first chunk
+    receivedBytes: number;               // Bytes of the chunks stored so far
     createdAt: Date;
+    lastActivityAt: Date;                // Last chunk received, idle uploads are swept
 }
 
 const ChunkUploadSchema = new Schema<IChunkUpload>({
-    uploadId: { type: String, required: true },
-    //uploadId: { type: String, required: true, unique: true },
+    uploadId: { type: String, required: true, unique: true },
 
     fileName: { type: String, required: true },
     totalChunks: { type: Number, required: true },
-    receivedChunks: { type: Number, default: 0 },
+    receivedChunks: [{ type: Number }],
     path: { type: String, default: '' },
-    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    shareCode: { type: String },
+    fileHash: { type: String },
+    totalSize: { type: Number },
+    receivedBytes: { type: Number, default: 0 },
     createdAt: { type: Date, default: Date.now },
+    lastActivityAt: { type: Date, default: Date.now },
 });
 
+// MongoDB drops idle uploads even while the sweeper isn't running, which then removes their chunks from disk
+ChunkUploadSchema.index({ lastActivityAt: 1 }, { expireAfterSeconds: UPLOAD_IDLE_TIMEOUT_HOURS * 3600 });
+ChunkUploadSchema.index({ shareCode: 1 });
+
 export default mongoose.model<IChunkUpload>('ChunkUpload', ChunkUploadSchema);
@@ -7,7 +7,7 @@ export interface IFileActivity extends Document {
     username: string;
     name?: string;
     surname?: string;
-    action: 'created' | 'updated' | 'deleted' | 'renamed' | 'moved';
+    action: 'created' | 'updated' | 'deleted' | 'renamed' | 'moved' | 'copied' | 'restored';
     filePath: string;
     timestamp: Date;
 }
@@ -17,7 +17,7 @@ const FileActivitySchema: Schema = new Schema({
     username: { type: String, required: true },
     name: { type: String },
     surname: { type: String },
-    action: { type: String, enum: ['created', 'updated', 'deleted', 'renamed', 'moved'], required: true },
+    action: { type: String, enum: ['created', 'updated', 'deleted', 'renamed', 'moved', 'copied', 'restored'], required: true },
     filePath: { type: String, required: true },
     timestamp: { type: Date, default: Date.now },
 });
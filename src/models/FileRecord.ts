@@ -0,0 +1,29 @@
+// models/FileRecord.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IFileRecord extends Document {
+    area: 'storage' | 'share';       // Which root folder the path belongs to
+    path: string;                    // Relative to the area root, e.g. ".trash/docs/a.pdf"
+    owner: mongoose.Types.ObjectId;  // User who created the file
+    size: number;
+    hash?: string;                   // Content blob when deduplicated storage is enabled
+    checksum?: string;               // SHA-256 the uploader sent and the assembled file was checked against
+    createdAt: Date;
+}
+
+const FileRecordSchema: Schema = new Schema({
+    area: { type: String, enum: ['storage', 'share'], required: true },
+    path: { type: String, required: true },
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    size: { type: Number, required: true },
+    hash: { type: String },
+    checksum: { type: String },
+    createdAt: { type: Date, default: Date.now },
+});
+
+FileRecordSchema.index({ area: 1, path: 1 }, { unique: true });
+FileRecordSchema.index({ owner: 1 });
+FileRecordSchema.index({ hash: 1 });
+
+export default mongoose.model<IFileRecord>('FileRecord', FileRecordSchema);
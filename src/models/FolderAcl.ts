@@ -0,0 +1,37 @@
+// models/FolderAcl.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Levels a folder can grant, each one includes the ones before it. "none" takes inherited access away.
+export const FOLDER_PERMISSIONS = ['none', 'read', 'write', 'manage'] as const;
+export type FolderPermission = typeof FOLDER_PERMISSIONS[number];
+
+// One grant, to either a single user or every user with the user role. Admins always manage every folder.
+export interface IFolderAclEntry {
+    user?: mongoose.Types.ObjectId;
+    role?: 'user';
+    permission: FolderPermission;
+}
+
+// Access rules of a storage folder, inherited by everything below it
+export interface IFolderAcl extends Document {
+    path: string;           // Relative to storageDir, '' for the root
+    entries: IFolderAclEntry[];
+    updatedBy?: mongoose.Types.ObjectId;
+    updatedAt: Date;
+}
+
+const FolderAclEntrySchema = new Schema<IFolderAclEntry>({
+    user: { type: Schema.Types.ObjectId, ref: 'User' },
+    role: { type: String, enum: ['user'] },
+    permission: { type: String, enum: FOLDER_PERMISSIONS, required: true },
+}, { _id: false });
+
+const FolderAclSchema = new Schema<IFolderAcl>({
+    path: { type: String, default: '', unique: true },
+    entries: [FolderAclEntrySchema],
+    updatedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    updatedAt: { type: Date, default: Date.now },
+});
+
+export default mongoose.model<IFolderAcl>('FolderAcl', FolderAclSchema);
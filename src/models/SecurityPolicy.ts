@@ -0,0 +1,19 @@
+// models/SecurityPolicy.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Settings admins change at runtime, kept in a single document
+export interface ISecurityPolicy extends Document {
+    key: string;
+    twoFactorRequiredRoles: string[]; // Users with these roles must set up 2FA before they can sign in
+    updatedBy?: mongoose.Types.ObjectId;
+    updatedAt: Date;
+}
+
+const SecurityPolicySchema = new Schema<ISecurityPolicy>({
+    key: { type: String, required: true, unique: true, default: 'default' },
+    twoFactorRequiredRoles: [{ type: String, enum: ['admin', 'user', 'guest'] }],
+    updatedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    updatedAt: { type: Date, default: Date.now },
+});
+
+export default mongoose.model<ISecurityPolicy>('SecurityPolicy', SecurityPolicySchema);
@@ -0,0 +1,32 @@
+// models/Session.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ISession extends Document {
+    user: mongoose.Types.ObjectId;
+    refreshTokenHash: string;          // SHA-256 of the current refresh token, the token itself is never stored
+    previousRefreshTokenHash?: string; // Token replaced by the last refresh, seeing it again means it leaked
+    device: string;                    // Name sent at login, or the User-Agent of the client
+    ip: string;
+    createdAt: Date;
+    lastUsedAt: Date;
+    expiresAt: Date;                   // Pushed back on every refresh
+    revokedAt?: Date;                  // Access tokens of a revoked session are refused
+}
+
+const SessionSchema = new Schema<ISession>({
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    refreshTokenHash: { type: String, required: true, unique: true },
+    previousRefreshTokenHash: { type: String },
+    device: { type: String, default: '' },
+    ip: { type: String, default: '' },
+    createdAt: { type: Date, default: Date.now },
+    lastUsedAt: { type: Date, default: Date.now },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date },
+});
+
+SessionSchema.index({ user: 1 });
+SessionSchema.index({ previousRefreshTokenHash: 1 });
+SessionSchema.index({ expiresAt: 1 });
+
+export default mongoose.model<ISession>('Session', SessionSchema);
@@ -0,0 +1,36 @@
+// models/ShareAccess.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { SHARE_ACCESS_RETENTION_DAYS } from '../config/config';
+
+export interface IShareAccess extends Document {
+    linkType: 'item' | 'file';     // SharedItem code or storage SharedFile token
+    code: string;
+    action: 'access' | 'list' | 'download' | 'download-all';
+    filePath?: string;
+    bytes: number;                 // Bytes served in the response body
+    statusCode: number;
+    ip?: string;
+    userAgent?: string;
+    timestamp: Date;
+}
+
+const ShareAccessSchema: Schema = new Schema({
+    linkType: { type: String, enum: ['item', 'file'], required: true },
+    code: { type: String, required: true },
+    action: { type: String, enum: ['access', 'list', 'download', 'download-all'], required: true },
+    filePath: { type: String },
+    bytes: { type: Number, default: 0 },
+    statusCode: { type: Number, required: true },
+    ip: { type: String },
+    userAgent: { type: String },
+    timestamp: { type: Date, default: Date.now },
+});
+
+ShareAccessSchema.index({ linkType: 1, code: 1, timestamp: -1 });
+if (SHARE_ACCESS_RETENTION_DAYS > 0) {
+    // MongoDB removes hits once they are older than the retention
+    ShareAccessSchema.index({ timestamp: 1 }, { expireAfterSeconds: SHARE_ACCESS_RETENTION_DAYS * 24 * 3600 });
+}
+
+export default mongoose.model<IShareAccess>('ShareAccess', ShareAccessSchema);
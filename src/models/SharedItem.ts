@@ -6,6 +6,16 @@ export interface ISharedItem extends Document {
     code: string;
     paths: string[];
     createdBy: mongoose.Types.ObjectId;
+    expiresAt?: Date;          // No expiry when missing
+    passwordHash?: string;     // bcrypt hash, access needs an unlock token when set
+    maxDownloads?: number;     // No limit when missing
+    downloadCount: number;
+    uploadFolder?: string;            // File-request mode: recipients can upload into this share folder
+    uploadMaxTotalSize?: number;      // Bytes recipients may upload in total, no limit when missing
+    uploadMaxFiles?: number;          // Files recipients may upload, no limit when missing
+    uploadAllowedMimeTypes: string[]; // Empty = any type, supports "image/*" wildcards
+    uploadedSize: number;
+    uploadedFiles: number;
     createdAt: Date;
 }
 
@@ -13,6 +23,16 @@ const SharedItemSchema: Schema = new Schema({
     code: { type: String, required: true, unique: true },
     paths: [{ type: String, required: true }],
     createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    expiresAt: { type: Date },
+    passwordHash: { type: String },
+    maxDownloads: { type: Number },
+    downloadCount: { type: Number, default: 0 },
+    uploadFolder: { type: String },
+    uploadMaxTotalSize: { type: Number },
+    uploadMaxFiles: { type: Number },
+    uploadAllowedMimeTypes: [{ type: String }],
+    uploadedSize: { type: Number, default: 0 },
+    uploadedFiles: { type: Number, default: 0 },
     createdAt: { type: Date, default: Date.now },
 });
 
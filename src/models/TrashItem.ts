@@ -0,0 +1,25 @@
+// models/TrashItem.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ITrashItem extends Document {
+    trashPath: string;      // Relative to .trash, differs from originalPath when the name was taken
+    originalPath: string;   // Where the item lived before it was deleted
+    deletedBy: mongoose.Types.ObjectId;
+    deletedAt: Date;
+    size: number;
+    isFolder: boolean;
+}
+
+const TrashItemSchema: Schema = new Schema({
+    trashPath: { type: String, required: true, unique: true },
+    originalPath: { type: String, required: true },
+    deletedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    deletedAt: { type: Date, default: Date.now },
+    size: { type: Number, default: 0 },
+    isFolder: { type: Boolean, default: false },
+});
+
+TrashItemSchema.index({ deletedAt: 1 });
+
+export default mongoose.model<ITrashItem>('TrashItem', TrashItemSchema);
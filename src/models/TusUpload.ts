@@ -0,0 +1,32 @@
+// models/TusUpload.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type TusTarget = 'storage' | 'share' | 'add-files';
+
+export interface ITusUpload extends Document {
+    uploadId: string;
+    target: TusTarget;                    // Where the file goes once every byte arrived
+    destination: string;                  // Folder for storage and share, the code for add-files
+    fileName: string;
+    length: number;                       // Upload-Length announced by the client
+    offset: number;                       // Bytes received so far
+    metadata?: string;                    // Raw Upload-Metadata header, echoed back on HEAD
+    createdBy?: mongoose.Types.ObjectId;  // Missing for anonymous add-files uploads
+    expiresAt: Date;
+    createdAt: Date;
+}
+
+const TusUploadSchema = new Schema<ITusUpload>({
+    uploadId: { type: String, required: true, unique: true },
+    target: { type: String, enum: ['storage', 'share', 'add-files'], required: true },
+    destination: { type: String, default: '' },
+    fileName: { type: String, required: true },
+    length: { type: Number, required: true },
+    offset: { type: Number, default: 0 },
+    metadata: { type: String },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    expiresAt: { type: Date, required: true },
+    createdAt: { type: Date, default: Date.now },
+});
+
+export default mongoose.model<ITusUpload>('TusUpload', TusUploadSchema);
@@ -9,6 +9,15 @@ export interface IUser extends Document {
     name?: string;
     surname?: string;
     image?: string;
+    storageQuota?: number; // Bytes, overrides the role quota when set
+    // Two-factor authentication (TOTP), the secrets are only loaded with select('+field')
+    twoFactorEnabled: boolean;
+    twoFactorSecret?: string;        // Base32 TOTP secret
+    twoFactorPendingSecret?: string; // Secret handed out by setup, becomes twoFactorSecret once a code was verified
+    twoFactorRecoveryCodes: string[]; // SHA-256 of the unused one-time recovery codes
+    twoFactorLastUsedStep?: number;  // Time step of the last accepted code, older codes are refused
+    twoFactorFailures: number;       // Wrong codes in a row
+    twoFactorLastFailureAt?: Date;
 }
 
 const UserSchema: Schema = new Schema({
@@ -22,6 +31,14 @@ const UserSchema: Schema = new Schema({
     name: { type: String },
     surname: { type: String },
     image: { type: String },
+    storageQuota: { type: Number },
+    twoFactorEnabled: { type: Boolean, default: false },
+    twoFactorSecret: { type: String, select: false },
+    twoFactorPendingSecret: { type: String, select: false },
+    twoFactorRecoveryCodes: { type: [String], select: false },
+    twoFactorLastUsedStep: { type: Number, select: false },
+    twoFactorFailures: { type: Number, default: 0, select: false },
+    twoFactorLastFailureAt: { type: Date, select: false },
 });
 
 export default mongoose.model<IUser>('User', UserSchema);
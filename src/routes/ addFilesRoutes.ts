@@ -25,6 +25,30 @@ const router = Router();
  *     tags: [Files]
  *     security:
  *       - BearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *                 example: Wedding photos
+ *               expiresIn:
+ *                 type: number
+ *                 description: Expiration time in hours
+ *               maxTotalSize:
+ *                 type: number
+ *                 description: Maximum total size of all files in bytes
+ *               maxFiles:
+ *                 type: integer
+ *                 description: Maximum number of files
+ *               allowedMimeTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   example: image/*
  *     responses:
  *       200:
  *         description: A new code was successfully generated.
@@ -36,16 +60,21 @@ const router = Router();
  *                 code:
  *                   type: string
  *                   example: rfmot49fwn39f38n
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Invalid expiry or limits
  *       401:
  *         description: Unauthorized
  */
-router.post('/add-files/generate',  authenticateToken(['admin', 'user']), generateCode);
+router.post('/add-files/generate',  authenticateToken(['admin', 'user'], 'share:manage'), generateCode);
 
 /**
  * @swagger
  * /add-files/codes:
  *   get:
- *     summary: Get all generated codes
+ *     summary: Get all generated codes (admins see every code, users their own)
  *     tags: [Files]
  *     security:
  *       - BearerAuth: []
@@ -62,11 +91,31 @@ router.post('/add-files/generate',  authenticateToken(['admin', 'user']), genera
  *                   code:
  *                     type: string
  *                     example: rfmot49fwn39f38n
+ *                   label:
+ *                     type: string
+ *                   expiresAt:
+ *                     type: string
+ *                     format: date-time
+ *                   maxTotalSize:
+ *                     type: number
+ *                   maxFiles:
+ *                     type: integer
+ *                   allowedMimeTypes:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   usage:
+ *                     type: object
+ *                     properties:
+ *                       totalSize:
+ *                         type: number
+ *                       fileCount:
+ *                         type: integer
  *                   createdAt:
  *                     type: string
  *                     format: date-time
  */
-router.get('/add-files/codes',  authenticateToken(['admin', 'user']), getAllCodes);
+router.get('/add-files/codes',  authenticateToken(['admin', 'user'], 'share:manage'), getAllCodes);
 
 /**
  * @swagger
@@ -88,8 +137,12 @@ router.get('/add-files/codes',  authenticateToken(['admin', 'user']), getAllCode
  *         description: Code and associated files deleted successfully.
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Code belongs to another user
+ *       404:
+ *         description: Code not found
  */
-router.delete('/add-files/:code',  authenticateToken(['admin', 'user']), deleteCode);
+router.delete('/add-files/:code',  authenticateToken(['admin', 'user'], 'share:manage'), deleteCode);
 
 /**
  * @swagger
@@ -114,6 +167,10 @@ router.delete('/add-files/:code',  authenticateToken(['admin', 'user']), deleteC
  *               items:
  *                 type: string
  *                 example: example-file.txt
+ *       404:
+ *         description: Code not found
+ *       410:
+ *         description: Code has expired
  */
 router.get('/add-files/:code', listFiles);
 
@@ -147,6 +204,14 @@ router.get('/add-files/:code', listFiles);
  *         description: Files uploaded successfully.
  *       400:
  *         description: Bad Request
+ *       404:
+ *         description: Code not found
+ *       410:
+ *         description: Code has expired
+ *       413:
+ *         description: Upload exceeds the size or file count limit of the code
+ *       415:
+ *         description: File type is not allowed for this code
  */
 //router.post('/add-files/:code', uploadFiles);
 
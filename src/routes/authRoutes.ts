@@ -1,8 +1,17 @@
 // routes/authRoutes.ts
 
 import express from 'express';
-import { register, login } from '../controllers/authController';
-import { authenticateToken } from '../middleware/authMiddleware';
+import { register, login, loginTwoFactor, refresh, logout, listSessions, revokeSession } from '../controllers/authController';
+import { createAccessToken, listAccessTokens, revokeAccessToken } from '../controllers/accessTokenController';
+import {
+    setupTwoFactor,
+    enableTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+    getTwoFactorPolicy,
+    updateTwoFactorPolicy,
+} from '../controllers/twoFactorController';
+import { authenticateToken, authenticateOptionalToken } from '../middleware/authMiddleware';
 
 const router = express.Router();
 
@@ -73,14 +82,448 @@ router.post('/register', authenticateToken(['admin']), register);
  *                 type: string
  *               password:
  *                 type: string
+ *               device:
+ *                 type: string
+ *                 description: Name shown in the session list, the User-Agent is used when missing
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: >
+ *           Login successful, returns a short-lived access token (token) and a refresh token.
+ *           With two-factor authentication enabled, twoFactorRequired and a challengeToken for
+ *           /auth/login/2fa are returned instead.
  *       401:
  *         description: Invalid credentials
+ *       403:
+ *         description: >
+ *           The user's role requires two-factor authentication (twoFactorSetupRequired). The returned
+ *           challengeToken can be used with /auth/2fa/setup and /auth/2fa/enable, then log in again.
  *       500:
  *         description: Server error
  */
 router.post('/login', login);
 
+/**
+ * @swagger
+ * /auth/login/2fa:
+ *   post:
+ *     summary: Second login step with a TOTP code or a recovery code
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 description: Returned by /auth/login
+ *               code:
+ *                 type: string
+ *                 description: 6-digit code from the authenticator app
+ *               recoveryCode:
+ *                 type: string
+ *                 description: One of the recovery codes, each works once
+ *               device:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful, same body as /auth/login
+ *       401:
+ *         description: Invalid code or expired challenge
+ *       429:
+ *         description: Too many wrong codes, try again later
+ *       500:
+ *         description: Server error
+ */
+router.post('/login/2fa', loginTwoFactor);
+
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     summary: Get a new access token with a refresh token
+ *     description: >
+ *       The refresh token is replaced by a new one on every call. Using a replaced refresh token
+ *       again revokes its session.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New access token (token) and refresh token
+ *       400:
+ *         description: Missing refresh token
+ *       401:
+ *         description: Invalid refresh token or the session has ended
+ *       500:
+ *         description: Server error
+ */
+router.post('/refresh', refresh);
+
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     summary: End the current session
+ *     description: Revokes the session of the access token, or the one of the refresh token sent in the body.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Logged out
+ *       400:
+ *         description: Missing token
+ *       500:
+ *         description: Server error
+ */
+router.post('/logout', authenticateOptionalToken(['admin', 'user', 'guest']), logout);
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     summary: List the current user's sessions
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   device:
+ *                     type: string
+ *                   ip:
+ *                     type: string
+ *                   createdAt:
+ *                     type: string
+ *                     format: date-time
+ *                   lastUsedAt:
+ *                     type: string
+ *                     format: date-time
+ *                   expiresAt:
+ *                     type: string
+ *                     format: date-time
+ *                   current:
+ *                     type: boolean
+ *                     description: Session of the access token used for this request
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get('/sessions', authenticateToken(['admin', 'user', 'guest']), listSessions);
+
+/**
+ * @swagger
+ * /auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke one of the current user's sessions
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Session revoked, its tokens no longer work
+ *       404:
+ *         description: Session not found
+ *       500:
+ *         description: Server error
+ */
+router.delete('/sessions/:id', authenticateToken(['admin', 'user', 'guest']), revokeSession);
+
+/**
+ * @swagger
+ * /auth/tokens:
+ *   post:
+ *     summary: Create a personal access token for scripts and CI
+ *     description: >
+ *       The token is sent as a bearer token like a session's access token, but only works on routes
+ *       covered by its scopes: content:write (portfolio, pages, blog, certifications, images),
+ *       storage:read and storage:write (storage routes), storage:manage (folder permissions),
+ *       share:manage (share area, share links and add-files codes). Only its hash is stored, so it is returned once.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [content:write, storage:read, storage:write, storage:manage, share:manage]
+ *               expiresInDays:
+ *                 type: number
+ *                 description: Leave out for a token that does not expire
+ *     responses:
+ *       201:
+ *         description: Token created, the token value is only shown in this response
+ *       400:
+ *         description: Missing name, unknown scope or invalid expiry
+ *       500:
+ *         description: Server error
+ *   get:
+ *     summary: List the current user's personal access tokens
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tokens without their value, with prefix, scopes, expiresAt and lastUsedAt
+ *       500:
+ *         description: Server error
+ */
+router.post('/tokens', authenticateToken(['admin', 'user']), createAccessToken);
+router.get('/tokens', authenticateToken(['admin', 'user']), listAccessTokens);
+
+/**
+ * @swagger
+ * /auth/tokens/{id}:
+ *   delete:
+ *     summary: Revoke a personal access token
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Token revoked
+ *       404:
+ *         description: Token not found
+ *       500:
+ *         description: Server error
+ */
+router.delete('/tokens/:id', authenticateToken(['admin', 'user']), revokeAccessToken);
+
+/**
+ * @swagger
+ * /auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor authentication setup
+ *     description: >
+ *       Returns a new TOTP secret and its otpauth URI (for a QR code). It is only used once a code
+ *       generated from it was sent to /auth/2fa/enable. Users who can't sign in yet because their role
+ *       requires 2FA send the challengeToken from /auth/login instead of a bearer token.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Secret and otpauthUri
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *       500:
+ *         description: Server error
+ */
+router.post('/2fa/setup', authenticateOptionalToken(['admin', 'user', 'guest']), setupTwoFactor);
+
+/**
+ * @swagger
+ * /auth/2fa/enable:
+ *   post:
+ *     summary: Turn two-factor authentication on with a code for the secret from setup
+ *     description: Other sessions of the user are signed out. The recovery codes are only returned here.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Enabled, returns the one-time recoveryCodes
+ *       400:
+ *         description: Invalid code or setup not started
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *       500:
+ *         description: Server error
+ */
+router.post('/2fa/enable', authenticateOptionalToken(['admin', 'user', 'guest']), enableTwoFactor);
+
+/**
+ * @swagger
+ * /auth/2fa/disable:
+ *   post:
+ *     summary: Turn two-factor authentication off
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Disabled
+ *       401:
+ *         description: Invalid password or code
+ *       403:
+ *         description: Two-factor authentication is required for the user's role
+ *       429:
+ *         description: Too many wrong codes, try again later
+ *       500:
+ *         description: Server error
+ */
+router.post('/2fa/disable', authenticateToken(['admin', 'user', 'guest']), disableTwoFactor);
+
+/**
+ * @swagger
+ * /auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace the recovery codes with new ones
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recoveryCodes, the earlier ones no longer work
+ *       400:
+ *         description: Two-factor authentication is not enabled
+ *       401:
+ *         description: Invalid code
+ *       429:
+ *         description: Too many wrong codes, try again later
+ *       500:
+ *         description: Server error
+ */
+router.post('/2fa/recovery-codes', authenticateToken(['admin', 'user', 'guest']), regenerateRecoveryCodes);
+
+/**
+ * @swagger
+ * /auth/2fa/policy:
+ *   get:
+ *     summary: Roles that must use two-factor authentication (admin only)
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: requiredRoles
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Choose the roles that must use two-factor authentication (admin only)
+ *     description: Users of these roles without 2FA are signed out and have to set it up at their next login.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - requiredRoles
+ *             properties:
+ *               requiredRoles:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [admin, user, guest]
+ *     responses:
+ *       200:
+ *         description: Policy updated
+ *       400:
+ *         description: Unknown role, or the admin's own account has no 2FA yet
+ *       500:
+ *         description: Server error
+ */
+router.get('/2fa/policy', authenticateToken(['admin']), getTwoFactorPolicy);
+router.put('/2fa/policy', authenticateToken(['admin']), updateTwoFactorPolicy);
+
 export default router;
@@ -63,7 +63,7 @@ router.get('/json/blog', (req, res) => {
  *       500:
  *         description: Server error
  */
-router.put('/json/blog', authenticateToken(['admin', 'user']), (req, res) => {
+router.put('/json/blog', authenticateToken(['admin', 'user'], 'content:write'), (req, res) => {
     try {
         const newBlogData = req.body;
 
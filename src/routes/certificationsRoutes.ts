@@ -63,7 +63,7 @@ router.get('/json/certifications', (req, res) => {
  *       500:
  *         description: Server error
  */
-router.put('/json/certifications', authenticateToken(['admin', 'user']), (req, res) => {
+router.put('/json/certifications', authenticateToken(['admin', 'user'], 'content:write'), (req, res) => {
     try {
         const newPortfolioData = req.body;
 
@@ -64,7 +64,7 @@ router.get('/images', listImages);
  */
 router.post(
     '/images/upload',
-    authenticateToken(['admin', 'user']),
+    authenticateToken(['admin', 'user'], 'content:write'),
     upload.single('image'),
     uploadImage
 );
@@ -104,7 +104,7 @@ router.post(
  */
 router.put(
     '/images/update',
-    authenticateToken(['admin', 'user']),
+    authenticateToken(['admin', 'user'], 'content:write'),
     updateImageName
 );
 
@@ -135,7 +135,7 @@ router.put(
  */
 router.delete(
     '/images/:filename',
-    authenticateToken(['admin', 'user']),
+    authenticateToken(['admin', 'user'], 'content:write'),
     deleteImage
 );
 
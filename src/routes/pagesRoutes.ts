@@ -63,7 +63,7 @@ router.get('/json/pages', (req, res) => {
  *       500:
  *         description: Server error
  */
-router.put('/json/pages', authenticateToken(['admin', 'user']), (req, res) => {
+router.put('/json/pages', authenticateToken(['admin', 'user'], 'content:write'), (req, res) => {
     try {
         const newPagesData = req.body;
 
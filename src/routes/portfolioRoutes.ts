@@ -63,7 +63,7 @@ router.get('/json/portfolio', (req, res) => {
  *       500:
  *         description: Server error
  */
-router.put('/json/portfolio', authenticateToken(['admin', 'user']), (req, res) => {
+router.put('/json/portfolio', authenticateToken(['admin', 'user'], 'content:write'), (req, res) => {
     try {
         const newPortfolioData = req.body;
 
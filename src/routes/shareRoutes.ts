@@ -9,14 +9,19 @@ import {
     createShareLink,
     listShareLinks,
     deleteShareLink,
+    getShareLinkStats,
     accessSharedItems,
+    unlockSharedItem,
+    listSharedFolder,
     getChangeLog,
     listItems,
     downloadSharedItem,
     downloadAllSharedItems, previewFile,
 } from '../controllers/shareController';
-import { uploadChunk, completeUpload } from '../controllers/chunkUploadController';
+import { uploadChunk, completeUpload, getUploadStatus } from '../controllers/chunkUploadController';
+import { uploadChunkToSharedItem, completeSharedItemUpload } from '../controllers/fileRequestController';
 import {chunkUploadMiddleware} from "../middleware/chunkMiddleware";
+import { enforceStorageQuota, enforceChunkedUploadQuota } from '../middleware/quotaMiddleware';
 
 
 const router = express.Router();
@@ -63,7 +68,7 @@ const router = express.Router();
  *       500:
  *         description: Server error
  */
-router.get('/share', authenticateToken(['admin', 'user']), listItems);
+router.get('/share', authenticateToken(['admin', 'user'], 'share:manage'), listItems);
 
 /**
  * @swagger
@@ -93,10 +98,12 @@ router.get('/share', authenticateToken(['admin', 'user']), listItems);
  *         description: Files uploaded successfully
  *       400:
  *         description: No files uploaded
+ *       413:
+ *         description: Storage quota exceeded
  *       500:
  *         description: Server error
  */
-router.post('/share/upload', authenticateToken(['admin', 'user']), ...uploadFiles);
+router.post('/share/upload', authenticateToken(['admin', 'user'], 'share:manage'), enforceStorageQuota, ...uploadFiles);
 
 /**
  * @swagger
@@ -126,7 +133,7 @@ router.post('/share/upload', authenticateToken(['admin', 'user']), ...uploadFile
  *       500:
  *         description: Server error
  */
-router.post('/share/create-folder', authenticateToken(['admin', 'user']), createFolder);
+router.post('/share/create-folder', authenticateToken(['admin', 'user'], 'share:manage'), createFolder);
 
 /**
  * @swagger
@@ -156,7 +163,7 @@ router.post('/share/create-folder', authenticateToken(['admin', 'user']), create
  *       500:
  *         description: Server error
  */
-router.put('/share/rename', authenticateToken(['admin', 'user']), renameItem);
+router.put('/share/rename', authenticateToken(['admin', 'user'], 'share:manage'), renameItem);
 
 /**
  * @swagger
@@ -184,7 +191,7 @@ router.put('/share/rename', authenticateToken(['admin', 'user']), renameItem);
  *       500:
  *         description: Server error
  */
-router.delete('/share/delete', authenticateToken(['admin', 'user']), deleteItem);
+router.delete('/share/delete', authenticateToken(['admin', 'user'], 'share:manage'), deleteItem);
 
 /**
  * @swagger
@@ -214,7 +221,7 @@ router.delete('/share/delete', authenticateToken(['admin', 'user']), deleteItem)
  *       500:
  *         description: Server error
  */
-router.put('/share/move', authenticateToken(['admin', 'user']), moveItem);
+router.put('/share/move', authenticateToken(['admin', 'user'], 'share:manage'), moveItem);
 
 /**
  * @swagger
@@ -236,16 +243,39 @@ router.put('/share/move', authenticateToken(['admin', 'user']), moveItem);
  *                 type: array
  *                 items:
  *                   type: string
- *                 description: List of item paths to share
+ *                 description: List of file and folder paths to share
+ *               expiresIn:
+ *                 type: number
+ *                 description: Hours until the link expires (never expires when omitted)
+ *               password:
+ *                 type: string
+ *                 description: Password required to unlock the link
+ *               maxDownloads:
+ *                 type: integer
+ *                 description: Number of downloads allowed (unlimited when omitted)
+ *               uploadFolder:
+ *                 type: string
+ *                 description: Share folder recipients may upload into (file-request mode, "" for the root)
+ *               uploadMaxTotalSize:
+ *                 type: integer
+ *                 description: Bytes recipients may upload in total (unlimited when omitted)
+ *               uploadMaxFiles:
+ *                 type: integer
+ *                 description: Files recipients may upload (unlimited when omitted)
+ *               uploadAllowedMimeTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Accepted file types, e.g. "application/pdf" or "image/*" (any type when omitted)
  *     responses:
  *       201:
  *         description: Share link created successfully
  *       400:
- *         description: No items provided for sharing
+ *         description: No items provided for sharing or invalid options
  *       500:
  *         description: Server error
  */
-router.post('/share/create-link', authenticateToken(['admin', 'user']), createShareLink);
+router.post('/share/create-link', authenticateToken(['admin', 'user'], 'share:manage'), createShareLink);
 
 /**
  * @swagger
@@ -257,11 +287,74 @@ router.post('/share/create-link', authenticateToken(['admin', 'user']), createSh
  *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: List of share links
+ *         description: List of share links, with their download count and last access time
  *       500:
  *         description: Server error
  */
-router.get('/share/links', authenticateToken(['admin', 'user']), listShareLinks);
+router.get('/share/links', authenticateToken(['admin', 'user'], 'share:manage'), listShareLinks);
+
+/**
+ * @swagger
+ * /share/links/{code}/stats:
+ *   get:
+ *     summary: Access statistics of a share link (owner only)
+ *     tags: [Share]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Share code
+ *     responses:
+ *       200:
+ *         description: Totals, unique visitors and a daily timeline
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 totals:
+ *                   type: object
+ *                   properties:
+ *                     hits:
+ *                       type: number
+ *                     downloads:
+ *                       type: number
+ *                     bytes:
+ *                       type: number
+ *                     uniqueVisitors:
+ *                       type: number
+ *                     firstAccessAt:
+ *                       type: string
+ *                       format: date-time
+ *                     lastAccessAt:
+ *                       type: string
+ *                       format: date-time
+ *                 timeline:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       date:
+ *                         type: string
+ *                         example: "2024-05-01"
+ *                       hits:
+ *                         type: number
+ *                       downloads:
+ *                         type: number
+ *                       bytes:
+ *                         type: number
+ *                       uniqueVisitors:
+ *                         type: number
+ *       404:
+ *         description: Share link not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/share/links/:code/stats', authenticateToken(['admin', 'user'], 'share:manage'), getShareLinkStats);
 
 /**
  * @swagger
@@ -286,7 +379,53 @@ router.get('/share/links', authenticateToken(['admin', 'user']), listShareLinks)
  *       500:
  *         description: Server error
  */
-router.delete('/share/links/:code', authenticateToken(['admin', 'user']), deleteShareLink);
+router.delete('/share/links/:code', authenticateToken(['admin', 'user'], 'share:manage'), deleteShareLink);
+
+/**
+ * @swagger
+ * /share/upload-status/{uploadId}:
+ *   get:
+ *     summary: Get the chunks received so far for a chunked upload
+ *     description: Chunks can be sent in any order and in parallel, a client resumes by sending the missing ones.
+ *     tags: [Share Chunk Upload]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Upload status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 uploadId:
+ *                   type: string
+ *                 fileName:
+ *                   type: string
+ *                 path:
+ *                   type: string
+ *                 totalChunks:
+ *                   type: integer
+ *                 receivedChunks:
+ *                   type: array
+ *                   items:
+ *                     type: integer
+ *                 missingChunks:
+ *                   type: array
+ *                   items:
+ *                     type: integer
+ *       404:
+ *         description: No chunk upload data found
+ *       500:
+ *         description: Server error
+ */
+router.get('/share/upload-status/:uploadId', authenticateToken(['admin', 'user'], 'share:manage'), getUploadStatus);
 
 /**
  * @swagger
@@ -301,6 +440,12 @@ router.delete('/share/links/:code', authenticateToken(['admin', 'user']), delete
  *           type: string
  *         required: true
  *         description: Unique share code
+ *       - in: header
+ *         name: X-Share-Token
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Unlock token, required for password-protected links (can also be sent as ?token=)
  *     responses:
  *       200:
  *         description: List of shared items retrieved successfully
@@ -314,13 +459,140 @@ router.delete('/share/links/:code', authenticateToken(['admin', 'user']), delete
  *                   items:
  *                     type: string
  *                     description: Relative paths of shared items
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *                 remainingDownloads:
+ *                   type: integer
+ *                   nullable: true
+ *       401:
+ *         description: Share link is password protected and no valid unlock token was sent
  *       404:
- *         description: Share link not found or expired
+ *         description: Share link not found
+ *       410:
+ *         description: Share link has expired or reached its download limit
  *       500:
  *         description: Internal server error
  */
 router.get('/share/:code', accessSharedItems);
 
+/**
+ * @swagger
+ * /share/{code}/unlock:
+ *   post:
+ *     summary: Unlock a share link and get a short-lived access token
+ *     tags: [Share]
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Unique share code
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Link unlocked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 token:
+ *                   type: string
+ *                   description: Send as X-Share-Token header or ?token= query parameter
+ *                 expiresIn:
+ *                   type: string
+ *       401:
+ *         description: Invalid password
+ *       404:
+ *         description: Share link not found
+ *       410:
+ *         description: Share link has expired or reached its download limit
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/share/:code/unlock', unlockSharedItem);
+
+/**
+ * @swagger
+ * /share/{code}/list:
+ *   get:
+ *     summary: Browse the items of a share link
+ *     description: Without a path the shared roots are listed. A path must be a shared folder or a folder inside one.
+ *     tags: [Share]
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Unique share code
+ *       - in: query
+ *         name: path
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Folder to list, relative to the share folder
+ *       - in: header
+ *         name: X-Share-Token
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Unlock token, required for password-protected links (can also be sent as ?token=)
+ *     responses:
+ *       200:
+ *         description: Folder contents
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 path:
+ *                   type: string
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                       type:
+ *                         type: string
+ *                         enum: [file, folder]
+ *                       path:
+ *                         type: string
+ *                       size:
+ *                         type: number
+ *                         nullable: true
+ *                       modifiedAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                         description: null for folders on S3 storage, which keep no time
+ *       400:
+ *         description: Path is not a folder
+ *       401:
+ *         description: Share link is password protected and no valid unlock token was sent
+ *       403:
+ *         description: Path is outside the shared items
+ *       404:
+ *         description: Share link or folder not found
+ *       410:
+ *         description: Share link has expired or reached its download limit
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/share/:code/list', listSharedFolder);
+
 /**
  * @swagger
  * /share/changelog:
@@ -335,14 +607,14 @@ router.get('/share/:code', accessSharedItems);
  *       500:
  *         description: Server error
  */
-router.get('/share/changelog', authenticateToken(['admin', 'user']), getChangeLog);
+router.get('/share/changelog', authenticateToken(['admin', 'user'], 'share:manage'), getChangeLog);
 
 
 /**
  * @swagger
  * /share/{code}/download:
  *   get:
- *     summary: Download a specific shared file
+ *     summary: Download a shared file, or a file inside a shared folder
  *     tags: [Share]
  *     parameters:
  *       - in: path
@@ -357,6 +629,12 @@ router.get('/share/changelog', authenticateToken(['admin', 'user']), getChangeLo
  *           type: string
  *         required: true
  *         description: Path of the file to download
+ *       - in: header
+ *         name: X-Share-Token
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Unlock token, required for password-protected links (can also be sent as ?token=)
  *     responses:
  *       200:
  *         description: File downloaded successfully
@@ -367,10 +645,14 @@ router.get('/share/changelog', authenticateToken(['admin', 'user']), getChangeLo
  *               format: binary
  *       400:
  *         description: Invalid file path
+ *       401:
+ *         description: Share link is password protected and no valid unlock token was sent
  *       403:
  *         description: Access denied to this file
  *       404:
  *         description: Share link or file not found
+ *       410:
+ *         description: Share link has expired or reached its download limit
  *       500:
  *         description: Internal server error
  */
@@ -380,7 +662,7 @@ router.get('/share/:code/download', downloadSharedItem);
  * @swagger
  * /share/{code}/download-all:
  *   get:
- *     summary: Download all shared items as a zip file
+ *     summary: Download all shared items, or a shared subfolder, as a zip file
  *     tags: [Share]
  *     parameters:
  *       - in: path
@@ -389,6 +671,18 @@ router.get('/share/:code/download', downloadSharedItem);
  *           type: string
  *         required: true
  *         description: Unique share code
+ *       - in: query
+ *         name: path
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Shared folder (or folder inside one) to zip instead of everything
+ *       - in: header
+ *         name: X-Share-Token
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Unlock token, required for password-protected links (can also be sent as ?token=)
  *     responses:
  *       200:
  *         description: Zip file downloaded successfully
@@ -397,8 +691,16 @@ router.get('/share/:code/download', downloadSharedItem);
  *             schema:
  *               type: string
  *               format: binary
+ *       400:
+ *         description: Invalid folder path
+ *       401:
+ *         description: Share link is password protected and no valid unlock token was sent
+ *       403:
+ *         description: Access denied to this folder
  *       404:
- *         description: Share link not found or expired
+ *         description: Share link or folder not found
+ *       410:
+ *         description: Share link has expired or reached its download limit
  *       500:
  *         description: Internal server error
  */
@@ -433,18 +735,34 @@ router.get('/share/:code/download-all', downloadAllSharedItems);
  *                 type: string
  *               path:
  *                 type: string
+ *               totalSize:
+ *                 type: number
+ *                 description: Size of the whole file, required with the first chunk and checked against the quota
+ *               chunkHash:
+ *                 type: string
+ *                 description: Hex SHA-256 of this chunk
+ *               fileHash:
+ *                 type: string
+ *                 description: Hex SHA-256 of the whole file, sent with the first chunk
  *     responses:
  *       200:
  *         description: Chunk uploaded
  *       400:
- *         description: Missing data
+ *         description: Missing data, totalSize or invalid chunk index
+ *       409:
+ *         description: uploadId is already used by another upload
+ *       413:
+ *         description: Storage quota exceeded, chunk too large or upload bigger than its totalSize
+ *       422:
+ *         description: Chunk checksum does not match, send the chunk again
  *       500:
  *         description: Server error
  */
 router.post(
     '/share/upload-chunk',
-    authenticateToken(['admin', 'user']),
+    authenticateToken(['admin', 'user'], 'share:manage'),
     chunkUploadMiddleware.single('chunk'),
+    enforceChunkedUploadQuota,
     uploadChunk
 );
 
@@ -467,21 +785,131 @@ router.post(
  *               uploadId:
  *                 type: string
  *     responses:
- *       200:
- *         description: File assembled successfully
+ *       202:
+ *         description: Assembly started (or already running), follow it with GET /uploads/jobs/{jobId}
  *       400:
- *         description: Missing chunk or data
+ *         description: Missing chunks (listed in missingChunks) or data
  *       404:
  *         description: No chunk upload data found
+ *       413:
+ *         description: Storage quota exceeded
  *       500:
  *         description: Server error
  */
 router.post(
     '/share/complete-upload',
-    authenticateToken(['admin', 'user']),
+    authenticateToken(['admin', 'user'], 'share:manage'),
     completeUpload
 );
 
+/**
+ * @swagger
+ * /share/{code}/upload-chunk:
+ *   post:
+ *     summary: Upload a file chunk through a file-request share link
+ *     description: No account needed. Password protected links need the unlock token.
+ *     tags: [Share Chunk Upload]
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Share link code
+ *     requestBody:
+ *       description: Chunk data
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               chunk:
+ *                 type: string
+ *                 format: binary
+ *               chunkIndex:
+ *                 type: number
+ *               totalChunks:
+ *                 type: number
+ *               fileName:
+ *                 type: string
+ *               uploadId:
+ *                 type: string
+ *               totalSize:
+ *                 type: number
+ *                 description: Size of the whole file, required. The upload can't receive more than the size given with its first chunk.
+ *               chunkHash:
+ *                 type: string
+ *                 description: Hex SHA-256 of this chunk
+ *               fileHash:
+ *                 type: string
+ *                 description: Hex SHA-256 of the whole file, sent with the first chunk
+ *     responses:
+ *       200:
+ *         description: Chunk uploaded
+ *       400:
+ *         description: Missing data, totalSize or invalid file name
+ *       403:
+ *         description: The link does not accept uploads
+ *       404:
+ *         description: Share link not found
+ *       409:
+ *         description: uploadId is already in use
+ *       410:
+ *         description: Share link has expired or its owner no longer exists
+ *       413:
+ *         description: Chunk too large, upload bigger than its totalSize, or exceeds the limits of this link or the owner's quota
+ *       415:
+ *         description: File type is not allowed for this link
+ *       422:
+ *         description: Chunk checksum does not match, send the chunk again
+ *       429:
+ *         description: Too many unfinished uploads for this link
+ *       500:
+ *         description: Server error
+ */
+router.post('/share/:code/upload-chunk', chunkUploadMiddleware.single('chunk'), uploadChunkToSharedItem);
+
+/**
+ * @swagger
+ * /share/{code}/complete-upload:
+ *   post:
+ *     summary: Assemble a file uploaded through a file-request share link
+ *     description: The file is stored in the link's upload folder, renamed instead of overwriting an existing file.
+ *     tags: [Share Chunk Upload]
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Share link code
+ *     requestBody:
+ *       description: Completion data
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               uploadId:
+ *                 type: string
+ *     responses:
+ *       202:
+ *         description: Assembly started (or already running), follow it with GET /uploads/jobs/{jobId}
+ *       400:
+ *         description: Missing chunks (listed in missingChunks) or data
+ *       403:
+ *         description: The link does not accept uploads
+ *       404:
+ *         description: Share link or chunk upload data not found
+ *       413:
+ *         description: Upload exceeds the limits of this link or the owner's storage quota
+ *       500:
+ *         description: Server error
+ */
+router.post('/share/:code/complete-upload', completeSharedItemUpload);
+
 
 /**
  * @swagger
@@ -2,22 +2,39 @@
 
 import express from 'express';
 import { authenticateToken } from '../middleware/authMiddleware';
+import { enforceStorageQuota, enforceChunkedUploadQuota } from '../middleware/quotaMiddleware';
 import {
     listItems,
+    searchItems,
     createFolder,
     upload,
     uploadFiles,
     renameItem,
     deleteItem,
     downloadFile,
+    downloadZip,
     moveItem,
+    copyItem,
+    batchMoveItems,
+    batchDeleteItems,
+    batchRestoreItems,
+    batchDeleteItemsPermanently,
     restoreItem,
     listTrashItems,
     deleteItemPermanently,
     listVersions,
+    downloadVersion,
+    restoreVersion,
+    deleteVersion,
     uploadChunk, filePreview,
     createShareLink,
-    getSharedFile, removeFavorite, addFavorite
+    getSharedFile, removeFavorite, addFavorite,
+    getStorageUsage,
+    setUserQuota,
+    getDedupReport,
+    getSharedFileStats,
+    getFolderPermissions,
+    updateFolderPermissions,
 
 } from '../controllers/storageController';
 
@@ -83,10 +100,118 @@ const router = express.Router();
  *         description: Invalid path
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No read permission on the folder
  *       500:
  *         description: Server error
  */
-router.get('/storage/items', authenticateToken(['admin', 'user']), listItems);
+router.get('/storage/items', authenticateToken(['admin', 'user'], 'storage:read'), listItems);
+
+/**
+ * @swagger
+ * /storage/search:
+ *   get:
+ *     summary: Search the whole storage tree
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: path
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Folder to search in (defaults to the storage root)
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Name glob, e.g. *.pdf (up to 100 characters and 4 "*")
+ *       - in: query
+ *         name: regex
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: >
+ *           Case-insensitive name regex (takes precedence over name). Up to 100 characters, without
+ *           backreferences, repeated groups containing quantifiers or alternations, or more than 4 unbounded quantifiers.
+ *       - in: query
+ *         name: mimeType
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: MIME type, e.g. application/pdf or image/*
+ *       - in: query
+ *         name: minSize
+ *         schema:
+ *           type: integer
+ *         required: false
+ *         description: Minimum size in bytes
+ *       - in: query
+ *         name: maxSize
+ *         schema:
+ *           type: integer
+ *         required: false
+ *         description: Maximum size in bytes
+ *       - in: query
+ *         name: modifiedAfter
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         required: false
+ *         description: Only items modified after this date
+ *       - in: query
+ *         name: modifiedBefore
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         required: false
+ *         description: Only items modified before this date
+ *       - in: query
+ *         name: favorite
+ *         schema:
+ *           type: boolean
+ *         required: false
+ *         description: Only favorites (true) or only non-favorites (false)
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Sort by field (name, path, size, modifiedAt, createdAt)
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *         required: false
+ *         description: Sort order
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *         required: false
+ *         description: Page number
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *         required: false
+ *         description: Items per page
+ *     responses:
+ *       200:
+ *         description: Successful response with matching items
+ *       400:
+ *         description: Invalid path, filter or search pattern
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No read permission on the folder
+ *       500:
+ *         description: Server error
+ */
+router.get('/storage/search', authenticateToken(['admin', 'user'], 'storage:read'), searchItems);
 
 /**
  * @swagger
@@ -117,10 +242,12 @@ router.get('/storage/items', authenticateToken(['admin', 'user']), listItems);
  *         description: Invalid folder name or path
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No write permission on the parent folder
  *       500:
  *         description: Server error
  */
-router.post('/storage/folder', authenticateToken(['admin', 'user']), createFolder);
+router.post('/storage/folder', authenticateToken(['admin', 'user'], 'storage:write'), createFolder);
 
 /**
  * @swagger
@@ -152,12 +279,17 @@ router.post('/storage/folder', authenticateToken(['admin', 'user']), createFolde
  *         description: No files uploaded
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No write permission on the folder
+ *       413:
+ *         description: Storage quota exceeded
  *       500:
  *         description: Server error
  */
 router.post(
     '/storage/upload',
-    authenticateToken(['admin', 'user']),
+    authenticateToken(['admin', 'user'], 'storage:write'),
+    enforceStorageQuota,
     upload.array('files', 100),
     uploadFiles
 );
@@ -192,10 +324,12 @@ router.post(
  *         description: Invalid name or path
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No write permission on the item or something below it
  *       500:
  *         description: Server error
  */
-router.put('/storage/rename', authenticateToken(['admin', 'user']), renameItem);
+router.put('/storage/rename', authenticateToken(['admin', 'user'], 'storage:write'), renameItem);
 
 /**
  * @swagger
@@ -227,10 +361,104 @@ router.put('/storage/rename', authenticateToken(['admin', 'user']), renameItem);
  *         description: Invalid path
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No write permission on the item or the destination folder
+ *       500:
+ *         description: Server error
+ */
+router.put('/storage/move', authenticateToken(['admin', 'user'], 'storage:write'), moveItem);
+
+/**
+ * @swagger
+ * /storage/batch/move:
+ *   put:
+ *     summary: Move several files or folders into a folder
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - paths
+ *               - destinationFolder
+ *             properties:
+ *               paths:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               destinationFolder:
+ *                 type: string
+ *               atomic:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Roll back every item already processed if one fails
+ *     responses:
+ *       200:
+ *         description: All items processed successfully
+ *       207:
+ *         description: Some items failed, see the per-item results
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Atomic batch failed and was rolled back
+ *       500:
+ *         description: Server error
+ */
+router.put('/storage/batch/move', authenticateToken(['admin', 'user'], 'storage:write'), batchMoveItems);
+
+/**
+ * @swagger
+ * /storage/copy:
+ *   post:
+ *     summary: Copy a file or folder (folders are copied recursively)
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       description: Copy data
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sourcePath
+ *               - destinationPath
+ *             properties:
+ *               sourcePath:
+ *                 type: string
+ *               destinationPath:
+ *                 type: string
+ *               conflict:
+ *                 type: string
+ *                 enum: [rename, overwrite, fail]
+ *                 default: rename
+ *                 description: What to do when the destination already exists
+ *     responses:
+ *       200:
+ *         description: Item copied successfully
+ *       400:
+ *         description: Invalid path
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No read permission on the item or no write permission on the destination folder
+ *       404:
+ *         description: Item not found
+ *       409:
+ *         description: Destination already exists
+ *       413:
+ *         description: Storage quota exceeded
  *       500:
  *         description: Server error
  */
-router.put('/storage/move', authenticateToken(['admin', 'user']), moveItem);
+router.post('/storage/copy', authenticateToken(['admin', 'user'], 'storage:write'), copyItem);
 
 /**
  * @swagger
@@ -259,16 +487,60 @@ router.put('/storage/move', authenticateToken(['admin', 'user']), moveItem);
  *         description: Invalid path
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No write permission on the item or something below it
  *       500:
  *         description: Server error
  */
-router.delete('/storage/delete', authenticateToken(['admin', 'user']), deleteItem);
+router.delete('/storage/delete', authenticateToken(['admin', 'user'], 'storage:write'), deleteItem);
+
+/**
+ * @swagger
+ * /storage/batch/delete:
+ *   delete:
+ *     summary: Move several files or folders to trash
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - paths
+ *             properties:
+ *               paths:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               atomic:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Roll back every item already processed if one fails
+ *     responses:
+ *       200:
+ *         description: All items processed successfully
+ *       207:
+ *         description: Some items failed, see the per-item results
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Atomic batch failed and was rolled back
+ *       500:
+ *         description: Server error
+ */
+router.delete('/storage/batch/delete', authenticateToken(['admin', 'user'], 'storage:write'), batchDeleteItems);
 
 /**
  * @swagger
  * /storage/trash/items:
  *   get:
- *     summary: List items in trash
+ *     summary: List items in trash (flat, including nested deletions)
+ *     description: Users other than admins only see items they can read where they were deleted from.
  *     tags: [Storage]
  *     security:
  *       - bearerAuth: []
@@ -278,22 +550,48 @@ router.delete('/storage/delete', authenticateToken(['admin', 'user']), deleteIte
  *         schema:
  *           type: string
  *         required: false
- *         description: Search query
+ *         description: Search in the original path
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [deletedAt, size, name, path]
+ *         required: false
+ *         description: Sort by field (default deletedAt)
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *         required: false
+ *         description: Sort order (default desc)
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *         required: false
+ *         description: Page number
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *         required: false
+ *         description: Items per page
  *     responses:
  *       200:
- *         description: Successful response with list of trash items
+ *         description: Trash items with original path, deleting user, deletion time and size
  *       401:
  *         description: Unauthorized
  *       500:
  *         description: Server error
  */
-router.get('/storage/trash/items', authenticateToken(['admin', 'user']), listTrashItems);
+router.get('/storage/trash/items', authenticateToken(['admin', 'user'], 'storage:read'), listTrashItems);
 
 /**
  * @swagger
  * /storage/trash/restore:
  *   put:
- *     summary: Restore an item from trash
+ *     summary: Restore an item from trash to its original location
  *     tags: [Storage]
  *     security:
  *       - bearerAuth: []
@@ -309,17 +607,75 @@ router.get('/storage/trash/items', authenticateToken(['admin', 'user']), listTra
  *             properties:
  *               itemPath:
  *                 type: string
+ *                 description: Trash path as returned by /storage/trash/items
+ *               conflict:
+ *                 type: string
+ *                 enum: [rename, overwrite, fail]
+ *                 default: rename
+ *                 description: What to do when the original location is taken (overwrite moves the existing item to trash)
  *     responses:
  *       200:
  *         description: Item restored successfully
  *       400:
  *         description: Invalid path
+ *       403:
+ *         description: Forbidden - No write permission on the item or its original folder
+ *       404:
+ *         description: Item not found in trash
+ *       409:
+ *         description: Original location is taken
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.put('/storage/trash/restore', authenticateToken(['admin', 'user'], 'storage:write'), restoreItem);
+
+/**
+ * @swagger
+ * /storage/trash/batch/restore:
+ *   put:
+ *     summary: Restore several items from trash
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - paths
+ *             properties:
+ *               paths:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               conflict:
+ *                 type: string
+ *                 enum: [rename, overwrite, fail]
+ *                 default: rename
+ *                 description: What to do when an original location is taken
+ *               atomic:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Roll back every item already processed if one fails
+ *     responses:
+ *       200:
+ *         description: All items processed successfully
+ *       207:
+ *         description: Some items failed, see the per-item results
+ *       400:
+ *         description: Invalid request
  *       401:
  *         description: Unauthorized
+ *       409:
+ *         description: Atomic batch failed and was rolled back
  *       500:
  *         description: Server error
  */
-router.put('/storage/trash/restore', authenticateToken(['admin', 'user']), restoreItem);
+router.put('/storage/trash/batch/restore', authenticateToken(['admin', 'user'], 'storage:write'), batchRestoreItems);
 
 /**
  * @swagger
@@ -348,16 +704,59 @@ router.put('/storage/trash/restore', authenticateToken(['admin', 'user']), resto
  *         description: Invalid path
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No write permission on the item where it was deleted from
  *       500:
  *         description: Server error
  */
-router.delete('/storage/trash/delete', authenticateToken(['admin', 'user']), deleteItemPermanently);
+router.delete('/storage/trash/delete', authenticateToken(['admin', 'user'], 'storage:write'), deleteItemPermanently);
+
+/**
+ * @swagger
+ * /storage/trash/batch/delete:
+ *   delete:
+ *     summary: Permanently delete several items from trash
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - paths
+ *             properties:
+ *               paths:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               atomic:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Roll back every item already processed if one fails
+ *     responses:
+ *       200:
+ *         description: All items processed successfully
+ *       207:
+ *         description: Some items failed, see the per-item results
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Atomic batch failed and was rolled back
+ *       500:
+ *         description: Server error
+ */
+router.delete('/storage/trash/batch/delete', authenticateToken(['admin', 'user'], 'storage:write'), batchDeleteItemsPermanently);
 
 /**
  * @swagger
  * /storage/versions:
  *   get:
- *     summary: List versions of a file
+ *     summary: List versions of a file (newest first, with size, timestamp and uploader)
  *     tags: [Storage]
  *     security:
  *       - bearerAuth: []
@@ -371,6 +770,30 @@ router.delete('/storage/trash/delete', authenticateToken(['admin', 'user']), del
  *     responses:
  *       200:
  *         description: Successful response with list of versions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 versions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       versionName:
+ *                         type: string
+ *                       path:
+ *                         type: string
+ *                       timestamp:
+ *                         type: number
+ *                       size:
+ *                         type: number
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                       uploadedBy:
+ *                         type: object
+ *                         nullable: true
  *       400:
  *         description: Invalid path
  *       401:
@@ -378,13 +801,116 @@ router.delete('/storage/trash/delete', authenticateToken(['admin', 'user']), del
  *       500:
  *         description: Server error
  */
-router.get('/storage/versions', authenticateToken(['admin', 'user']), listVersions);
+router.get('/storage/versions', authenticateToken(['admin', 'user'], 'storage:read'), listVersions);
+
+/**
+ * @swagger
+ * /storage/versions/download:
+ *   get:
+ *     summary: Download a specific version of a file
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: itemPath
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Path to the file
+ *       - in: query
+ *         name: versionName
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Version name as returned by /storage/versions
+ *     responses:
+ *       200:
+ *         description: Version downloaded successfully
+ *       400:
+ *         description: Invalid path
+ *       404:
+ *         description: Version not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/storage/versions/download', authenticateToken(['admin', 'user'], 'storage:read'), downloadVersion);
+
+/**
+ * @swagger
+ * /storage/versions/restore:
+ *   put:
+ *     summary: Restore a version as the current file (the current file becomes a version)
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemPath
+ *               - versionName
+ *             properties:
+ *               itemPath:
+ *                 type: string
+ *               versionName:
+ *                 type: string
+ *                 example: report.pdf.1735689600000
+ *     responses:
+ *       200:
+ *         description: Version restored successfully
+ *       400:
+ *         description: Invalid path
+ *       404:
+ *         description: Version not found
+ *       500:
+ *         description: Server error
+ */
+router.put('/storage/versions/restore', authenticateToken(['admin', 'user'], 'storage:write'), restoreVersion);
+
+/**
+ * @swagger
+ * /storage/versions:
+ *   delete:
+ *     summary: Delete a specific version of a file
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemPath
+ *               - versionName
+ *             properties:
+ *               itemPath:
+ *                 type: string
+ *               versionName:
+ *                 type: string
+ *                 example: report.pdf.1735689600000
+ *     responses:
+ *       200:
+ *         description: Version deleted successfully
+ *       400:
+ *         description: Invalid path
+ *       404:
+ *         description: Version not found
+ *       500:
+ *         description: Server error
+ */
+router.delete('/storage/versions', authenticateToken(['admin', 'user'], 'storage:write'), deleteVersion);
 
 /**
  * @swagger
  * /storage/download:
  *   get:
- *     summary: Download a file
+ *     summary: Download a file (supports Range, If-Range, If-None-Match and If-Modified-Since)
  *     tags: [Storage]
  *     parameters:
  *       - in: query
@@ -393,21 +919,88 @@ router.get('/storage/versions', authenticateToken(['admin', 'user']), listVersio
  *           type: string
  *         required: true
  *         description: Path to the file
+ *       - in: header
+ *         name: Range
+ *         schema:
+ *           type: string
+ *           example: bytes=0-1048575
+ *         required: false
+ *         description: Single byte range to download
  *     responses:
  *       200:
  *         description: File downloaded successfully
+ *       206:
+ *         description: Partial content for the requested range
+ *       304:
+ *         description: File not modified
  *       400:
  *         description: Invalid path
+ *       403:
+ *         description: Forbidden - No read permission on the file
+ *       404:
+ *         description: File not found
+ *       416:
+ *         description: Requested range not satisfiable
  *       500:
  *         description: Server error
  */
-router.get('/storage/download', authenticateToken(['admin', 'user']), downloadFile);
+router.get('/storage/download', authenticateToken(['admin', 'user'], 'storage:read'), downloadFile);
+
+/**
+ * @swagger
+ * /storage/download-zip:
+ *   post:
+ *     summary: Download several files and folders as a zip
+ *     description: Entries keep their path relative to the storage root. Files or folders that can't be read are left out and listed in SKIPPED.txt inside the archive.
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - paths
+ *             properties:
+ *               paths:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               compressionLevel:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 9
+ *                 default: 6
+ *                 description: zlib level, 0 only stores the files (best for photos, videos and archives)
+ *     responses:
+ *       200:
+ *         description: Zip archive stream
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid path or compression level
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No read permission on one of the items
+ *       500:
+ *         description: Server error
+ */
+router.post('/storage/download-zip', authenticateToken(['admin', 'user'], 'storage:read'), downloadZip);
 
 /**
  * @swagger
  * /storage/upload-chunk:
  *   post:
  *     summary: Upload a file chunk
+ *     description: >
+ *       Along with fileName, chunkIndex and totalChunks, the first chunk has to give totalSize
+ *       (size of the whole file), which is checked against the storage quota before the upload starts.
  *     tags: [Storage]
  *     security:
  *       - bearerAuth: []
@@ -423,11 +1016,20 @@ router.get('/storage/download', authenticateToken(['admin', 'user']), downloadFi
  *       200:
  *         description: Chunk uploaded successfully
  *       400:
- *         description: Invalid data
+ *         description: Invalid data or missing totalSize on the first chunk
+ *       403:
+ *         description: Forbidden - No write permission on the folder
+ *       413:
+ *         description: Storage quota exceeded, or the chunks received pass the declared totalSize
  *       500:
  *         description: Server error
  */
-router.post('/storage/upload-chunk', authenticateToken(['admin', 'user']), uploadChunk);
+router.post(
+    '/storage/upload-chunk',
+    authenticateToken(['admin', 'user'], 'storage:write'),
+    enforceChunkedUploadQuota,
+    uploadChunk
+);
 
 /**
  * @swagger
@@ -463,12 +1065,14 @@ router.post('/storage/upload-chunk', authenticateToken(['admin', 'user']), uploa
  *               example: image/png
  *       400:
  *         description: Preview not available for this file type
+ *       403:
+ *         description: Forbidden - No read permission on the file
  *       404:
  *         description: File not found or invalid path
  *       500:
  *         description: Server error
  */
-router.get('/storage/preview', authenticateToken(['admin', 'user']), filePreview);
+router.get('/storage/preview', authenticateToken(['admin', 'user'], 'storage:read'), filePreview);
 
 /**
  * @swagger
@@ -502,7 +1106,7 @@ router.get('/storage/preview', authenticateToken(['admin', 'user']), filePreview
  *       500:
  *         description: Server error
  */
-router.post('/storage/share', authenticateToken(['admin', 'user']), createShareLink);
+router.post('/storage/share', authenticateToken(['admin', 'user'], 'share:manage'), createShareLink);
 
 /**
  * @swagger
@@ -529,6 +1133,69 @@ router.post('/storage/share', authenticateToken(['admin', 'user']), createShareL
  */
 router.get('/storage/shared/:token', getSharedFile);
 
+/**
+ * @swagger
+ * /storage/shared/{token}/stats:
+ *   get:
+ *     summary: Access statistics of a shared file link (owner only)
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Share token
+ *     responses:
+ *       200:
+ *         description: Totals, unique visitors and a daily timeline
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 totals:
+ *                   type: object
+ *                   properties:
+ *                     hits:
+ *                       type: number
+ *                     downloads:
+ *                       type: number
+ *                     bytes:
+ *                       type: number
+ *                     uniqueVisitors:
+ *                       type: number
+ *                     firstAccessAt:
+ *                       type: string
+ *                       format: date-time
+ *                     lastAccessAt:
+ *                       type: string
+ *                       format: date-time
+ *                 timeline:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       date:
+ *                         type: string
+ *                         example: "2024-05-01"
+ *                       hits:
+ *                         type: number
+ *                       downloads:
+ *                         type: number
+ *                       bytes:
+ *                         type: number
+ *                       uniqueVisitors:
+ *                         type: number
+ *       404:
+ *         description: Shared file not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/storage/shared/:token/stats', authenticateToken(['admin', 'user'], 'share:manage'), getSharedFileStats);
+
 
 /**
  * @swagger
@@ -556,7 +1223,7 @@ router.get('/storage/shared/:token', getSharedFile);
  *       500:
  *         description: Server error
  */
-router.post('/storage/favorite', authenticateToken(['admin', 'user']), addFavorite);
+router.post('/storage/favorite', authenticateToken(['admin', 'user'], 'storage:write'), addFavorite);
 
 /**
  * @swagger
@@ -584,7 +1251,251 @@ router.post('/storage/favorite', authenticateToken(['admin', 'user']), addFavori
  *       500:
  *         description: Server error
  */
-router.delete('/storage/favorite', authenticateToken(['admin', 'user']), removeFavorite);
+router.delete('/storage/favorite', authenticateToken(['admin', 'user'], 'storage:write'), removeFavorite);
+
+/**
+ * @swagger
+ * /storage/usage:
+ *   get:
+ *     summary: Get storage usage and quota
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: User to report on (admin only, defaults to the current user)
+ *     responses:
+ *       200:
+ *         description: Usage in bytes split into live files, versions, trash and share
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 userId:
+ *                   type: string
+ *                 quota:
+ *                   type: number
+ *                   description: Quota in bytes (0 = unlimited)
+ *                 remaining:
+ *                   type: number
+ *                   nullable: true
+ *                 usage:
+ *                   type: object
+ *                   properties:
+ *                     live:
+ *                       type: number
+ *                     versions:
+ *                       type: number
+ *                     trash:
+ *                       type: number
+ *                     share:
+ *                       type: number
+ *                     total:
+ *                       type: number
+ *       400:
+ *         description: Invalid userId
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/storage/usage', authenticateToken(['admin', 'user'], 'storage:read'), getStorageUsage);
+
+/**
+ * @swagger
+ * /storage/quota:
+ *   put:
+ *     summary: Set the storage quota of a user (admin only)
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *               - quota
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               quota:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Quota in bytes (0 = unlimited, null = use the role quota)
+ *     responses:
+ *       200:
+ *         description: Quota updated successfully
+ *       400:
+ *         description: Invalid quota
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Server error
+ */
+router.put('/storage/quota', authenticateToken(['admin']), setUserQuota);
+
+/**
+ * @swagger
+ * /storage/permissions:
+ *   get:
+ *     summary: Show the effective permissions of a folder
+ *     description: Folder entries apply to everything below the folder. The nearest folder with an entry for a user decides, an entry naming the user beats one for their role. Without any entry the role default (STORAGE_DEFAULT_PERMISSION_USER) applies, admins always manage every folder. Requires manage permission on the folder.
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: path
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Path of the folder, the root when empty
+ *     responses:
+ *       200:
+ *         description: Folder permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 path:
+ *                   type: string
+ *                 permission:
+ *                   type: string
+ *                   description: Permission of the caller on the folder
+ *                 entries:
+ *                   type: array
+ *                   description: Entries set on the folder itself
+ *                   items:
+ *                     type: object
+ *                 inherited:
+ *                   type: array
+ *                   description: Entries of the parent folders (path, entries), nearest first
+ *                   items:
+ *                     type: object
+ *                 effective:
+ *                   type: array
+ *                   description: Permission (and the folder it comes from, null for the role default) of every role and every user named in the entries
+ *                   items:
+ *                     type: object
+ *       400:
+ *         description: Invalid path
+ *       403:
+ *         description: Forbidden - No manage permission on the folder
+ *       404:
+ *         description: Folder not found
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Replace the permission entries of a folder
+ *     description: >
+ *       Requires manage permission on the folder, and the storage:manage scope for personal access tokens.
+ *       An empty list removes the folder's own entries so it only inherits.
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - entries
+ *             properties:
+ *               path:
+ *                 type: string
+ *                 description: Path of the folder, the root when empty
+ *               entries:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   description: Grant to either one user (user id) or every user with the user role
+ *                   properties:
+ *                     user:
+ *                       type: string
+ *                     role:
+ *                       type: string
+ *                       enum: [user]
+ *                     permission:
+ *                       type: string
+ *                       enum: [none, read, write, manage]
+ *                       description: Each level includes the ones before it, "none" takes inherited access away
+ *     responses:
+ *       200:
+ *         description: Folder permissions updated, the body holds the new permissions like GET /storage/permissions
+ *       400:
+ *         description: Invalid path or entries
+ *       403:
+ *         description: Forbidden - No manage permission on the folder, or a token without the storage:manage scope
+ *       404:
+ *         description: Folder or user not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/storage/permissions', authenticateToken(['admin', 'user'], 'storage:read'), getFolderPermissions);
+router.put('/storage/permissions', authenticateToken(['admin', 'user'], 'storage:manage'), updateFolderPermissions);
+
+/**
+ * @swagger
+ * /storage/dedup-report:
+ *   get:
+ *     summary: Show how much space the deduplicated blob store saves (admin only)
+ *     description: With STORAGE_DEDUP=true file contents are stored once per SHA-256 hash and shared by every file, copy and version with the same content.
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Deduplication report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 enabled:
+ *                   type: boolean
+ *                 blobCount:
+ *                   type: number
+ *                 fileCount:
+ *                   type: number
+ *                 physicalSize:
+ *                   type: number
+ *                   description: Bytes stored on disk
+ *                 logicalSize:
+ *                   type: number
+ *                   description: Bytes of all files referencing a blob
+ *                 savedBytes:
+ *                   type: number
+ *                 savedRatio:
+ *                   type: number
+ *                 mostShared:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       hash:
+ *                         type: string
+ *                       size:
+ *                         type: number
+ *                       refCount:
+ *                         type: number
+ *                       savedBytes:
+ *                         type: number
+ *       500:
+ *         description: Server error
+ */
+router.get('/storage/dedup-report', authenticateToken(['admin']), getDedupReport);
 
 
 export default router;
@@ -0,0 +1,165 @@
+import express from 'express';
+import cors from 'cors';
+import { authenticateOptionalToken } from '../middleware/authMiddleware';
+import {
+    TUS_EXPOSED_HEADERS,
+    checkTusVersion,
+    getTusOptions,
+    createTusUpload,
+    getTusUploadOffset,
+    patchTusUpload,
+    deleteTusUpload,
+} from '../controllers/tusController';
+
+const router = express.Router();
+
+// tus answers OPTIONS itself and browser clients must be able to read its headers
+const tusCors = cors({ exposedHeaders: TUS_EXPOSED_HEADERS, preflightContinue: true });
+// Personal access tokens need the scope of the upload target, checked by createTusUpload
+const tusAuth = authenticateOptionalToken(['admin', 'user'], ['storage:write', 'share:manage']);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Resumable Upload
+ *   description: tus 1.0 resumable uploads (creation, expiration and termination extensions)
+ */
+
+/**
+ * @swagger
+ * /tus:
+ *   options:
+ *     summary: Discover the tus version, extensions and maximum upload size
+ *     tags: [Resumable Upload]
+ *     responses:
+ *       204:
+ *         description: Tus-Version, Tus-Extension and (when limited) Tus-Max-Size headers
+ *   post:
+ *     summary: Create a resumable upload
+ *     description: >
+ *       Upload-Metadata names the destination: target (storage, share or add-files, default storage),
+ *       filename, path (destination folder for storage and share) and code (for add-files).
+ *       Storage and share uploads need a bearer token, add-files uploads only the code.
+ *     tags: [Resumable Upload]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Tus-Resumable
+ *         schema:
+ *           type: string
+ *           example: 1.0.0
+ *         required: true
+ *       - in: header
+ *         name: Upload-Length
+ *         schema:
+ *           type: integer
+ *         required: true
+ *       - in: header
+ *         name: Upload-Metadata
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Comma separated "key base64value" pairs
+ *     responses:
+ *       201:
+ *         description: Upload created, its URL is in the Location header
+ *       400:
+ *         description: Missing Upload-Length, unknown target or invalid path
+ *       401:
+ *         description: Storage and share uploads need a token
+ *       412:
+ *         description: Unsupported tus version
+ *       413:
+ *         description: Upload exceeds the maximum size, the storage quota or the code's limits
+ *       415:
+ *         description: File type is not allowed for the code
+ *       500:
+ *         description: Server error
+ */
+router.options('/tus', tusCors, checkTusVersion, getTusOptions);
+router.post('/tus', tusCors, checkTusVersion, tusAuth, createTusUpload);
+
+/**
+ * @swagger
+ * /tus/{id}:
+ *   head:
+ *     summary: Get the number of bytes received so far
+ *     tags: [Resumable Upload]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Upload-Offset, Upload-Length, Upload-Metadata and Upload-Expires headers
+ *       403:
+ *         description: The upload belongs to another user
+ *       404:
+ *         description: Upload not found
+ *       410:
+ *         description: Upload has expired
+ *   patch:
+ *     summary: Append bytes to an upload
+ *     description: The file is moved to its destination once Upload-Length bytes have been received.
+ *     tags: [Resumable Upload]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *       - in: header
+ *         name: Upload-Offset
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/offset+octet-stream:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       204:
+ *         description: Bytes stored, the new offset is in the Upload-Offset header
+ *       409:
+ *         description: Upload-Offset does not match the received bytes
+ *       413:
+ *         description: More bytes than announced, or the file no longer fits its destination
+ *       415:
+ *         description: Wrong Content-Type
+ *       423:
+ *         description: Another request is writing to this upload
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Cancel an upload and remove the received bytes
+ *     tags: [Resumable Upload]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       204:
+ *         description: Upload removed
+ *       404:
+ *         description: Upload not found
+ */
+router.options('/tus/:id', tusCors, checkTusVersion, getTusOptions);
+router.head('/tus/:id', tusCors, checkTusVersion, tusAuth, getTusUploadOffset);
+router.patch('/tus/:id', tusCors, checkTusVersion, tusAuth, patchTusUpload);
+router.delete('/tus/:id', tusCors, checkTusVersion, tusAuth, deleteTusUpload);
+
+export default router;
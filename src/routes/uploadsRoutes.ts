@@ -0,0 +1,191 @@
+import express from 'express';
+import { authenticateToken, authenticateOptionalToken } from '../middleware/authMiddleware';
+import { listUploads, cancelUpload, getAssemblyJobStatus, streamAssemblyJob } from '../controllers/uploadsController';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Uploads
+ *   description: In-progress uploads (admin only)
+ */
+
+/**
+ * @swagger
+ * tags:
+ *   name: Upload Jobs
+ *   description: Background assembly of completed chunked uploads
+ */
+
+/**
+ * @swagger
+ * /admin/uploads:
+ *   get:
+ *     summary: List uploads that were started and not finished yet
+ *     description: >
+ *       Covers chunked share and add-files uploads (type "chunked"), storage chunk uploads kept in
+ *       storage/.temp (type "storage") and resumable uploads (type "tus"). Uploads idle longer than
+ *       UPLOAD_IDLE_TIMEOUT_HOURS are removed in the background.
+ *     tags: [Uploads]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: In-progress uploads, most recently active first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 idleTimeoutHours:
+ *                   type: number
+ *                 totalSizeOnDisk:
+ *                   type: number
+ *                 uploads:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       type:
+ *                         type: string
+ *                         enum: [chunked, storage, tus]
+ *                       id:
+ *                         type: string
+ *                       fileName:
+ *                         type: string
+ *                       destination:
+ *                         type: string
+ *                       owner:
+ *                         type: string
+ *                       shareCode:
+ *                         type: string
+ *                       receivedChunks:
+ *                         type: number
+ *                       totalChunks:
+ *                         type: number
+ *                       sizeOnDisk:
+ *                         type: number
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                       lastActivityAt:
+ *                         type: string
+ *                         format: date-time
+ *       500:
+ *         description: Server error
+ */
+router.get('/admin/uploads', authenticateToken(['admin']), listUploads);
+
+/**
+ * @swagger
+ * /admin/uploads/{type}/{id}:
+ *   delete:
+ *     summary: Cancel an upload and remove what was received
+ *     tags: [Uploads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [chunked, storage, tus]
+ *         required: true
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Upload id, or the file path for storage uploads
+ *     responses:
+ *       200:
+ *         description: Upload cancelled
+ *       404:
+ *         description: Upload not found
+ *       409:
+ *         description: Upload is being assembled
+ *       500:
+ *         description: Server error
+ */
+router.delete('/admin/uploads/:type/:id(*)', authenticateToken(['admin']), cancelUpload);
+
+/**
+ * @swagger
+ * /uploads/jobs/{jobId}:
+ *   get:
+ *     summary: Get the progress of an assembly job
+ *     description: >
+ *       Completing a chunked upload (share, add-files or file-request link) starts a job that streams the
+ *       chunks into the final file. The file only counts as uploaded once the job is "completed", which
+ *       happens after it was flushed to disk and moved into place. Jobs of signed-in users need their token.
+ *     tags: [Upload Jobs]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Job status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 jobId:
+ *                   type: string
+ *                 uploadId:
+ *                   type: string
+ *                 fileName:
+ *                   type: string
+ *                 status:
+ *                   type: string
+ *                   enum: [assembling, completed, failed]
+ *                 bytesWritten:
+ *                   type: number
+ *                 totalBytes:
+ *                   type: number
+ *                 progress:
+ *                   type: number
+ *                   description: Percentage of the bytes written
+ *                 sha256:
+ *                   type: string
+ *                   description: SHA-256 of the stored file, once completed
+ *                 error:
+ *                   type: string
+ *                   description: Why the job failed
+ *       404:
+ *         description: Job not found (or finished more than ASSEMBLY_JOB_RETENTION_MINUTES ago)
+ */
+router.get('/uploads/jobs/:jobId', authenticateOptionalToken(['admin', 'user'], 'share:manage'), getAssemblyJobStatus);
+
+/**
+ * @swagger
+ * /uploads/jobs/{jobId}/events:
+ *   get:
+ *     summary: Follow an assembly job with server-sent events
+ *     description: >
+ *       Sends "progress" events while the file is assembled and closes the stream after one "completed"
+ *       or "failed" event. Every event carries the same data as GET /uploads/jobs/{jobId}.
+ *     tags: [Upload Jobs]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Job not found
+ */
+router.get('/uploads/jobs/:jobId/events', authenticateOptionalToken(['admin', 'user'], 'share:manage'), streamAssemblyJob);
+
+export default router;
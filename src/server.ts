@@ -3,7 +3,17 @@
 import express from 'express';
 import { connect } from 'mongoose';
 import cors from 'cors';
-import { PORT, MONGO_URI } from './config/config';
+import {
+    PORT,
+    MONGO_URI,
+    ADD_FILES_CLEANUP_INTERVAL_MINUTES,
+    VERSION_PRUNE_INTERVAL_MINUTES,
+    TRASH_PURGE_INTERVAL_MINUTES,
+    STORAGE_DRIVERS,
+    TUS_CLEANUP_INTERVAL_MINUTES,
+    UPLOAD_CLEANUP_INTERVAL_MINUTES,
+    SESSION_CLEANUP_INTERVAL_MINUTES,
+} from './config/config';
 import authRoutes from './routes/authRoutes';
 import portfolioRoutes from './routes/portfolioRoutes';
 import imagesRoutes from './routes/imagesRoutes';
@@ -18,6 +28,14 @@ import pagesRoutes from "./routes/pagesRoutes";
 import blogRoutes from "./routes/blogRoutes";
 import shareRoutes from "./routes/shareRoutes";
 import addFilesRoutes from "./routes/ addFilesRoutes";
+import tusRoutes from './routes/tusRoutes';
+import uploadsRoutes from './routes/uploadsRoutes';
+import { cleanupExpiredCodes } from './controllers/addFilesController';
+import { pruneAllVersions, purgeExpiredTrash } from './controllers/storageController';
+import { serveImage } from './controllers/imageController';
+import { purgeExpiredTusUploads } from './controllers/tusController';
+import { purgeAbandonedUploads } from './controllers/uploadsController';
+import { purgeExpiredSessions } from './controllers/authController';
 
 const app = express();
 
@@ -25,6 +43,8 @@ const app = express();
 app.use(express.json({ limit: '10gb' }));
 // app.use(express.json());
 app.use(express.urlencoded({ limit: '10gb', extended: true }));
+// tus answers OPTIONS requests itself, so it comes before the global CORS handler
+app.use('/', tusRoutes);
 app.use(cors());
 
 // Swagger setup
@@ -41,11 +61,8 @@ app.get('/status', (req, res) => {
     res.status(200).send({ status: 'OK' });
 });
 
-// Serve images from the 'images' directory
-app.use('/images', express.static(path.join(__dirname, 'images')));
-
-// Serve shared items
-app.use('/storage/shared', express.static(path.join(__dirname, 'storage')));
+// Serve images from the 'images' directory (or the configured images driver)
+app.use('/images', STORAGE_DRIVERS.images === 'local' ? express.static(path.join(__dirname, 'images')) : serveImage);
 
 // Routes
 app.use('/auth', authRoutes);
@@ -58,6 +75,7 @@ app.use('/', storageRoutes);
 app.use('/', blogRoutes);
 app.use('/', shareRoutes);
 app.use('/', addFilesRoutes);
+app.use('/', uploadsRoutes);
 
 // Serve images from the 'uploads/profile_images' directory
 app.use(
@@ -65,10 +83,6 @@ app.use(
     express.static(path.join(__dirname, 'uploads/profile_images'))
 );
 
-// Serve shared items and storage files
-app.use('/storage/shared', express.static(path.join(__dirname, 'storage')));
-app.use('/storage/download', express.static(path.join(__dirname, 'storage')));
-
 // Test environment variables
 console.log('Environment Variables:', {
     PORT,
@@ -81,6 +95,30 @@ connect(MONGO_URI)
     .then(() => {
         console.log('Connected to MongoDB');
 
+        // Periodically remove expired add-files codes and their folders
+        cleanupExpiredCodes();
+        setInterval(cleanupExpiredCodes, ADD_FILES_CLEANUP_INTERVAL_MINUTES * 60 * 1000);
+
+        // Apply the version retention policy to old versions
+        pruneAllVersions();
+        setInterval(pruneAllVersions, VERSION_PRUNE_INTERVAL_MINUTES * 60 * 1000);
+
+        // Purge trash items older than the retention period
+        purgeExpiredTrash();
+        setInterval(purgeExpiredTrash, TRASH_PURGE_INTERVAL_MINUTES * 60 * 1000);
+
+        // Remove resumable uploads that were abandoned
+        purgeExpiredTusUploads();
+        setInterval(purgeExpiredTusUploads, TUS_CLEANUP_INTERVAL_MINUTES * 60 * 1000);
+
+        // Remove chunked uploads nobody is sending chunks for anymore
+        purgeAbandonedUploads();
+        setInterval(purgeAbandonedUploads, UPLOAD_CLEANUP_INTERVAL_MINUTES * 60 * 1000);
+
+        // Remove sign-in sessions that expired or were revoked
+        purgeExpiredSessions();
+        setInterval(purgeExpiredSessions, SESSION_CLEANUP_INTERVAL_MINUTES * 60 * 1000);
+
         app.listen(PORT, () => {
             console.log(`Server running on http://localhost:${PORT}`);
             console.log(`API Docs available at http://localhost:${PORT}/api-docs`);
@@ -24,6 +24,10 @@ const swaggerOptions = {
                     type: 'http',
                     scheme: 'bearer',
                     bearerFormat: 'JWT',
+                    description:
+                        'Access token from /auth/login, or a personal access token (pat_...) from /auth/tokens. ' +
+                        'Personal access tokens work on content (content:write), storage (storage:read, storage:write, ' +
+                        'storage:manage) and share (share:manage) routes when they carry the scope.',
                 },
             },
         },
@@ -0,0 +1,113 @@
+// utils/assemblyJobs.ts
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { ASSEMBLY_JOB_RETENTION_MINUTES } from '../config/config';
+
+// Assembling a large upload takes a while, so complete-upload requests start a job and answer
+// with its id right away. Jobs are kept in memory: after a restart the upload record and its
+// chunks are still there and the client simply completes the upload again.
+export interface AssemblyJob {
+    jobId: string;
+    uploadId: string;
+    fileName: string;
+    owner?: string;          // User who completed the upload, missing for anonymous uploads
+    status: 'assembling' | 'completed' | 'failed';
+    bytesWritten: number;
+    totalBytes: number;
+    result?: Record<string, unknown>; // Returned by the job when it completes, e.g. sha256
+    error?: string;
+    createdAt: Date;
+    finishedAt?: Date;
+}
+
+// Progress is published to subscribers at most this often
+const PROGRESS_INTERVAL_MS = 500;
+
+const jobs = new Map<string, AssemblyJob>();
+const runningByUpload = new Map<string, string>();
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+// Job assembling an upload right now, a second complete-upload request gets this one back
+export const getRunningAssemblyJob = (uploadId: string) => {
+    const jobId = runningByUpload.get(uploadId);
+    return jobId ? jobs.get(jobId) : undefined;
+};
+
+export const getAssemblyJob = (jobId: string) => jobs.get(jobId);
+
+// Run `assemble` in the background and track its progress.
+// Errors carrying a `status` are expected failures and their message is shown to the client.
+export const startAssemblyJob = (
+    details: Pick<AssemblyJob, 'uploadId' | 'fileName' | 'owner' | 'totalBytes'>,
+    assemble: (onProgress: (bytesWritten: number) => void) => Promise<Record<string, unknown> | void>
+) => {
+    const running = getRunningAssemblyJob(details.uploadId);
+    if (running) {
+        return running;
+    }
+
+    const job: AssemblyJob = {
+        ...details,
+        jobId: uuidv4(),
+        status: 'assembling',
+        bytesWritten: 0,
+        createdAt: new Date(),
+    };
+    jobs.set(job.jobId, job);
+    runningByUpload.set(job.uploadId, job.jobId);
+
+    let lastPublished = 0;
+    const onProgress = (bytesWritten: number) => {
+        job.bytesWritten = bytesWritten;
+        if (Date.now() - lastPublished >= PROGRESS_INTERVAL_MS) {
+            lastPublished = Date.now();
+            events.emit(job.jobId, job);
+        }
+    };
+
+    assemble(onProgress)
+        .then((result) => {
+            job.status = 'completed';
+            job.result = result || undefined;
+        })
+        .catch((error) => {
+            if (!error.status) {
+                console.error(`Error assembling upload ${job.uploadId}:`, error);
+            }
+            job.status = 'failed';
+            job.error = error.status ? error.message : 'Server error';
+        })
+        .finally(() => {
+            job.finishedAt = new Date();
+            runningByUpload.delete(job.uploadId);
+            events.emit(job.jobId, job);
+            setTimeout(() => jobs.delete(job.jobId), ASSEMBLY_JOB_RETENTION_MINUTES * 60 * 1000).unref();
+        });
+
+    return job;
+};
+
+// Call `listener` with every progress update of a job until it finishes, returns the unsubscribe function
+export const subscribeToAssemblyJob = (jobId: string, listener: (job: AssemblyJob) => void) => {
+    events.on(jobId, listener);
+    return () => {
+        events.off(jobId, listener);
+    };
+};
+
+// What clients get to see of a job
+export const toJobStatus = (job: AssemblyJob) => ({
+    jobId: job.jobId,
+    uploadId: job.uploadId,
+    fileName: job.fileName,
+    status: job.status,
+    bytesWritten: job.bytesWritten,
+    totalBytes: job.totalBytes,
+    progress: job.totalBytes > 0 ? Math.floor((job.bytesWritten / job.totalBytes) * 100) : 100,
+    ...(job.result || {}),
+    ...(job.error ? { error: job.error } : {}),
+    createdAt: job.createdAt,
+    finishedAt: job.finishedAt,
+});
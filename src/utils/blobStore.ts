@@ -0,0 +1,118 @@
+// utils/blobStore.ts
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import Blob from '../models/Blob';
+import FileRecord from '../models/FileRecord';
+
+// Every file in the storage tree is a hard link to storage/.blobs/<aa>/<hash>,
+// so renames, moves and versions only touch the link and never the bytes.
+export const blobsDir = path.join(__dirname, '../storage/.blobs');
+
+export const getBlobPath = (hash: string) => path.join(blobsDir, hash.slice(0, 2), hash);
+
+// SHA-256 of a file, streamed so large uploads are not loaded in memory
+export const hashFile = (filePath: string) =>
+    new Promise<string>((resolve, reject) => {
+        const hash = crypto.createHash('sha256');
+        fs.createReadStream(filePath)
+            .on('error', reject)
+            .on('data', (chunk) => hash.update(chunk))
+            .on('end', () => resolve(hash.digest('hex')));
+    });
+
+// Replace a freshly written file with a link to its blob and return the hash.
+// References are counted by recordFile once the file is recorded.
+// Identical files stored at the same time race for the blob, the ones that lose get EEXIST
+// and are linked to the existing blob like any later duplicate.
+export const storeAsBlob = async (fullPath: string) => {
+    const hash = await hashFile(fullPath);
+    const blobPath = getBlobPath(hash);
+    await fs.promises.mkdir(path.dirname(blobPath), { recursive: true });
+
+    for (;;) {
+        try {
+            await fs.promises.link(fullPath, blobPath);
+            return hash;
+        } catch (error: any) {
+            if (error.code !== 'EEXIST') {
+                throw error;
+            }
+        }
+
+        // Same content is already stored, drop the duplicate bytes
+        const tempLink = `${fullPath}.${uuidv4()}.link`;
+        try {
+            await fs.promises.link(blobPath, tempLink);
+            await fs.promises.rename(tempLink, fullPath);
+            return hash;
+        } catch (error: any) {
+            await fs.promises.rm(tempLink, { force: true });
+            // The last reference to the blob was released in between, this file becomes the blob
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+    }
+};
+
+// Point a new file at an existing blob (used by copy)
+export const linkBlob = async (hash: string, destinationPath: string) => {
+    await fs.promises.link(getBlobPath(hash), destinationPath);
+};
+
+export const acquireBlob = async (hash: string, size: number) => {
+    await Blob.updateOne(
+        { hash },
+        { $inc: { refCount: 1 }, $setOnInsert: { size, createdAt: new Date() } },
+        { upsert: true }
+    );
+};
+
+// Drop one reference and delete the blob once nothing points at it anymore
+export const releaseBlob = async (hash: string) => {
+    const blob = await Blob.findOneAndUpdate({ hash }, { $inc: { refCount: -1 } }, { new: true });
+    if (!blob || blob.refCount > 0) {
+        return;
+    }
+    // A file recorded meanwhile took a new reference, the blob stays then
+    const { deletedCount } = await Blob.deleteOne({ _id: blob._id, refCount: { $lte: 0 } });
+    if (deletedCount > 0) {
+        await fs.promises.rm(getBlobPath(hash), { force: true });
+    }
+};
+
+// Logical bytes (what users see) against physical bytes (what is on disk)
+export const buildDedupReport = async () => {
+    const [physical] = await Blob.aggregate([
+        { $group: { _id: null, blobs: { $sum: 1 }, size: { $sum: '$size' } } },
+    ]);
+    const [logical] = await FileRecord.aggregate([
+        { $match: { hash: { $exists: true } } },
+        { $group: { _id: null, files: { $sum: 1 }, size: { $sum: '$size' } } },
+    ]);
+    const mostShared = await Blob.find({ refCount: { $gt: 1 } })
+        .sort({ refCount: -1, size: -1 })
+        .limit(10)
+        .select('-_id hash size refCount')
+        .lean();
+
+    const physicalSize = physical?.size || 0;
+    const logicalSize = logical?.size || 0;
+    const savedBytes = Math.max(logicalSize - physicalSize, 0);
+
+    return {
+        blobCount: physical?.blobs || 0,
+        fileCount: logical?.files || 0,
+        physicalSize,
+        logicalSize,
+        savedBytes,
+        savedRatio: logicalSize > 0 ? savedBytes / logicalSize : 0,
+        mostShared: mostShared.map((blob) => ({
+            ...blob,
+            savedBytes: blob.size * (blob.refCount - 1),
+        })),
+    };
+};
@@ -0,0 +1,220 @@
+// utils/chunkStore.ts
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { promisify } from 'util';
+import { FilterQuery } from 'mongoose';
+import ChunkUpload, { IChunkUpload } from '../models/ChunkUpload';
+import { StorageDriver } from '../drivers';
+import { hashFile } from './blobStore';
+
+const pipeline = promisify(require('stream').pipeline);
+
+// Chunks of an upload are kept as temp_chunks/<uploadId>/<index> until the file is assembled,
+// so uploads of files with the same name never share chunk files.
+export const CHUNK_DIR = path.join(__dirname, '../temp_chunks');
+
+const getChunkPath = (uploadId: string, index: number) => path.join(CHUNK_DIR, uploadId, String(index));
+
+// Upload ids are chosen by clients and end up in paths, so only plain characters are accepted
+export const isValidUploadId = (uploadId: unknown): uploadId is string =>
+    typeof uploadId === 'string' && /^[A-Za-z0-9_-]{1,128}$/.test(uploadId);
+
+// Checksums are hex SHA-256, compared in lower case
+const parseSha256 = (value: unknown) =>
+    typeof value === 'string' && /^[a-fA-F0-9]{64}$/.test(value) ? value.toLowerCase() : null;
+
+// Indices the upload is still waiting for
+export const getMissingChunks = (chunkUpload: IChunkUpload) => {
+    const received = new Set(chunkUpload.receivedChunks);
+    const missing = [];
+    for (let i = 0; i < chunkUpload.totalChunks; i++) {
+        if (!received.has(i)) {
+            missing.push(i);
+        }
+    }
+    return missing;
+};
+
+// Record a chunk written by multer and move it next to the other chunks of its upload.
+// `owner` tells who the upload belongs to, an uploadId already used by someone else gets a 409.
+// Chunks can come in any order and in parallel, a retried chunk replaces the earlier copy.
+// A chunk that does not match its `chunkHash` is refused with a 422 so the client sends it again,
+// the `fileHash` of the first chunk is kept to check the assembled file.
+// With a `totalSize`, chunks that would make the upload bigger than declared are refused with a 413.
+export const saveChunk = async (
+    file: Express.Multer.File,
+    body: {
+        uploadId: unknown;
+        chunkIndex: unknown;
+        totalChunks: unknown;
+        fileName: string;
+        path?: string;
+        chunkHash?: unknown;
+        fileHash?: unknown;
+        totalSize?: unknown;
+    },
+    owner: FilterQuery<IChunkUpload>
+): Promise<{ chunkUpload?: IChunkUpload; status: number; message: string }> => {
+    const { uploadId, chunkIndex, totalChunks, fileName } = body;
+    const discard = () => fs.promises.rm(file.path, { force: true });
+
+    if (!isValidUploadId(uploadId)) {
+        await discard();
+        return { status: 400, message: 'Invalid uploadId' };
+    }
+    if (!/^[1-9]\d*$/.test(String(totalChunks)) || !/^\d+$/.test(String(chunkIndex))) {
+        await discard();
+        return { status: 400, message: 'Invalid chunk index' };
+    }
+    if (body.totalSize !== undefined && !/^[1-9]\d*$/.test(String(body.totalSize))) {
+        await discard();
+        return { status: 400, message: 'Invalid totalSize' };
+    }
+
+    const chunkHash = parseSha256(body.chunkHash);
+    const fileHash = parseSha256(body.fileHash);
+    if ((body.chunkHash !== undefined && !chunkHash) || (body.fileHash !== undefined && !fileHash)) {
+        await discard();
+        return { status: 400, message: 'Checksums must be hex SHA-256' };
+    }
+    if (chunkHash && (await hashFile(file.path)) !== chunkHash) {
+        await discard();
+        return { status: 422, message: 'Chunk checksum does not match, send the chunk again' };
+    }
+
+    let chunkUpload: IChunkUpload;
+    try {
+        chunkUpload = await ChunkUpload.findOneAndUpdate(
+            { uploadId, ...owner },
+            {
+                $setOnInsert: {
+                    uploadId,
+                    fileName,
+                    totalChunks: Number(totalChunks),
+                    path: body.path || '',
+                    ...(fileHash ? { fileHash } : {}),
+                    ...(body.totalSize !== undefined ? { totalSize: Number(body.totalSize) } : {}),
+                },
+            },
+            { new: true, upsert: true }
+        );
+    } catch (error: any) {
+        await discard();
+        if (error.code === 11000) {
+            return { status: 409, message: 'uploadId is already in use' };
+        }
+        throw error;
+    }
+
+    const index = Number(chunkIndex);
+    if (index >= chunkUpload.totalChunks) {
+        await discard();
+        return { status: 400, message: 'Invalid chunk index' };
+    }
+
+    // A retried chunk replaces the earlier copy, so only the difference is counted
+    const chunkPath = getChunkPath(uploadId, index);
+    const previous = await fs.promises.stat(chunkPath).catch(() => null);
+    const added = file.size - (previous ? previous.size : 0);
+    const counted = await ChunkUpload.updateOne(
+        {
+            _id: chunkUpload._id,
+            ...(chunkUpload.totalSize ? { receivedBytes: { $lte: chunkUpload.totalSize - added } } : {}),
+        },
+        { $inc: { receivedBytes: added } }
+    );
+    if (counted.matchedCount === 0) {
+        await discard();
+        return { status: 413, message: 'Upload is larger than its declared totalSize' };
+    }
+
+    await fs.promises.mkdir(path.dirname(chunkPath), { recursive: true });
+    await fs.promises.rename(file.path, chunkPath);
+    await ChunkUpload.updateOne(
+        { _id: chunkUpload._id },
+        { $addToSet: { receivedChunks: index }, $set: { lastActivityAt: new Date() } }
+    );
+
+    return { chunkUpload, status: 200, message: 'Chunk uploaded' };
+};
+
+// Size of the assembled file
+export const getChunksSize = async (chunkUpload: IChunkUpload) => {
+    let size = 0;
+    for (let i = 0; i < chunkUpload.totalChunks; i++) {
+        size += (await fs.promises.stat(getChunkPath(chunkUpload.uploadId, i))).size;
+    }
+    return size;
+};
+
+// Build the file from its chunks in local staging and check it against the upload's fileHash.
+// Chunks are streamed one after the other, `onProgress` gets the number of bytes written so far.
+// The file is flushed to disk so a driver can move it into place.
+// Returns the staged file and its SHA-256, or null when it does not match (the file is removed then).
+export const buildAssembledFile = async (
+    chunkUpload: IChunkUpload,
+    onProgress?: (bytesWritten: number) => void
+) => {
+    const { uploadId, totalChunks } = chunkUpload;
+    const assembledPath = path.join(CHUNK_DIR, uploadId, 'assembled');
+    const hash = crypto.createHash('sha256');
+    let bytesWritten = 0;
+
+    await pipeline(
+        Readable.from((async function* () {
+            for (let i = 0; i < totalChunks; i++) {
+                for await (const chunk of fs.createReadStream(getChunkPath(uploadId, i))) {
+                    hash.update(chunk);
+                    yield chunk;
+                    bytesWritten += chunk.length;
+                    onProgress?.(bytesWritten);
+                }
+            }
+        })()),
+        fs.createWriteStream(assembledPath)
+    );
+
+    const sha256 = hash.digest('hex');
+    if (chunkUpload.fileHash && chunkUpload.fileHash !== sha256) {
+        await fs.promises.rm(assembledPath, { force: true });
+        return null;
+    }
+
+    const handle = await fs.promises.open(assembledPath, 'r');
+    try {
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+
+    return { assembledPath, sha256 };
+};
+
+// Assemble the file and hand it to the driver, so a corrupted file never becomes visible.
+// Returns the SHA-256 of the file, or null when it does not match (nothing is stored then).
+export const assembleChunks = async (
+    chunkUpload: IChunkUpload,
+    driver: StorageDriver,
+    itemPath: string,
+    onProgress?: (bytesWritten: number) => void
+) => {
+    const assembled = await buildAssembledFile(chunkUpload, onProgress);
+    if (!assembled) {
+        return null;
+    }
+    await driver.putFile(assembled.assembledPath, itemPath);
+    return assembled.sha256;
+};
+
+// Thrown by assembly jobs when assembleChunks found the file does not match its fileHash
+export const fileHashMismatchError = () =>
+    Object.assign(new Error('Assembled file does not match fileHash, upload it again'), { status: 422 });
+
+// Remove the chunks and the record of an upload
+export const removeChunkUpload = async (chunkUpload: IChunkUpload) => {
+    await fs.promises.rm(path.join(CHUNK_DIR, chunkUpload.uploadId), { recursive: true, force: true });
+    await ChunkUpload.deleteOne({ _id: chunkUpload._id });
+};
@@ -0,0 +1,155 @@
+// utils/folderAcl.ts
+
+import path from 'path';
+import FolderAcl, { FOLDER_PERMISSIONS, FolderPermission, IFolderAclEntry } from '../models/FolderAcl';
+import { STORAGE_DEFAULT_PERMISSIONS } from '../config/config';
+
+// Entries of every folder that has an ACL, keyed by folder path
+export type FolderAclMap = Map<string, IFolderAclEntry[]>;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches the path itself and everything below it
+const pathPrefix = (itemPath: string) => new RegExp(`^${escapeRegExp(itemPath)}(/|$)`);
+
+export const isFolderPermission = (value: unknown): value is FolderPermission =>
+    FOLDER_PERMISSIONS.includes(value as FolderPermission);
+
+// Whether `granted` includes `required`
+export const hasPermission = (granted: FolderPermission, required: FolderPermission) =>
+    FOLDER_PERMISSIONS.indexOf(granted) >= FOLDER_PERMISSIONS.indexOf(required);
+
+// The item itself, then every folder above it up to the root ('')
+export const pathAndAncestors = (itemPath: string) => {
+    const paths: string[] = [];
+    for (let current = itemPath; current && current !== '.'; current = path.dirname(current)) {
+        paths.push(current);
+    }
+    paths.push('');
+    return paths;
+};
+
+// Permission of a role where no ACL applies
+const getDefaultPermission = (role: string): FolderPermission => {
+    if (role === 'admin') {
+        return 'manage';
+    }
+    const permission = STORAGE_DEFAULT_PERMISSIONS[role];
+    return isFolderPermission(permission) ? permission : 'none';
+};
+
+// The nearest folder with an entry for the user decides, an entry naming the user beats one for their role.
+// `source` is the folder the permission comes from, null for the role default.
+export const resolvePermission = (
+    acls: FolderAclMap,
+    user: { _id: unknown; role: string },
+    itemPath: string
+): { permission: FolderPermission; source: string | null } => {
+    if (user.role === 'admin') {
+        return { permission: 'manage', source: null };
+    }
+
+    for (const folder of pathAndAncestors(itemPath)) {
+        const entries = acls.get(folder);
+        if (!entries) {
+            continue;
+        }
+        const entry = entries.find((item) => item.user && String(item.user) === String(user._id))
+            || entries.find((item) => item.role === user.role);
+        if (entry) {
+            return { permission: entry.permission, source: folder };
+        }
+    }
+
+    return { permission: getDefaultPermission(user.role), source: null };
+};
+
+// ACLs of the given folders, or of every folder when no paths are given
+export const loadFolderAcls = async (paths?: string[]): Promise<FolderAclMap> => {
+    const acls = await FolderAcl.find(paths ? { path: { $in: paths } } : {}).lean();
+    return new Map(acls.map((acl) => [acl.path, acl.entries]));
+};
+
+// Permission of a user on a single item
+export const getPermission = async (user: { _id: unknown; role: string }, itemPath: string) => {
+    if (user.role === 'admin') {
+        return 'manage';
+    }
+    const acls = await loadFolderAcls(pathAndAncestors(itemPath));
+    return resolvePermission(acls, user, itemPath).permission;
+};
+
+// Lowest permission of a user on an item and everything below it, which is what moving,
+// copying or deleting a whole folder needs
+export const getSubtreePermission = async (user: { _id: unknown; role: string }, itemPath: string) => {
+    if (user.role === 'admin') {
+        return 'manage';
+    }
+    const acls = new Map((await FolderAcl.find({
+        $or: [{ path: { $in: pathAndAncestors(itemPath) } }, { path: pathPrefix(itemPath) }],
+    }).lean()).map((acl) => [acl.path, acl.entries]));
+
+    let lowest = resolvePermission(acls, user, itemPath).permission;
+    for (const folder of acls.keys()) {
+        const { permission } = resolvePermission(acls, user, folder);
+        if (pathPrefix(itemPath).test(folder) && !hasPermission(permission, lowest)) {
+            lowest = permission;
+        }
+    }
+    return lowest;
+};
+
+// Permission on a trashed item, judged by the place it was deleted from. The item's own entries moved
+// into the trash with it (see moveFolderAcls), the entries of its former parents are still in place.
+export const resolveTrashedPermission = (
+    acls: FolderAclMap,
+    user: { _id: unknown; role: string },
+    trashedPath: string,
+    originalPath: string
+) => {
+    const view = new Map(acls);
+    view.delete(originalPath);
+    const own = acls.get(trashedPath);
+    if (own) {
+        view.set(originalPath, own);
+    }
+    return resolvePermission(view, user, originalPath).permission;
+};
+
+// Same for a single trashed item, `trashedPath` is its path inside storage (".trash/<id>/<name>")
+export const getTrashedPermission = async (
+    user: { _id: unknown; role: string },
+    trashedPath: string,
+    originalPath: string
+) => {
+    if (user.role === 'admin') {
+        return 'manage';
+    }
+    const acls = await loadFolderAcls([...pathAndAncestors(originalPath), trashedPath]);
+    return resolveTrashedPermission(acls, user, trashedPath, originalPath);
+};
+
+// Loads every ACL once, for checking many items of a listing or search
+export const getPermissionResolver = async (user: { _id: unknown; role: string }) => {
+    const acls = user.role === 'admin' ? new Map() : await loadFolderAcls();
+    return (itemPath: string) => resolvePermission(acls, user, itemPath).permission;
+};
+
+// ACLs follow their folder when it is renamed, moved, trashed or restored
+export const moveFolderAcls = async (oldPath: string, newPath: string) => {
+    const acls = await FolderAcl.find({ path: pathPrefix(oldPath) }).select('path').lean();
+
+    // Rules left at the destination by an item that no longer exists must not apply to the moved one
+    await FolderAcl.deleteMany({ path: pathPrefix(newPath) });
+    if (acls.length === 0) {
+        return;
+    }
+    await FolderAcl.bulkWrite(acls.map((acl) => ({
+        updateOne: { filter: { _id: acl._id }, update: { path: newPath + acl.path.slice(oldPath.length) } },
+    })));
+};
+
+// Forget the ACLs of a folder and everything below it
+export const removeFolderAcls = async (itemPath: string) => {
+    await FolderAcl.deleteMany({ path: pathPrefix(itemPath) });
+};
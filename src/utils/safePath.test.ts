@@ -0,0 +1,131 @@
+// utils/safePath.test.ts
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { resolveSafePath, safeFileName } from './safePath';
+
+describe('resolveSafePath', () => {
+    let workDir: string;
+    let baseDir: string;
+    let outsideDir: string;
+
+    // base/
+    //   docs/report.txt
+    //   inner -> base/docs            (stays inside)
+    //   outer -> outside              (leads out)
+    //   dangling -> base/missing
+    // outside/secret.txt
+    before(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'safe-path-'));
+        baseDir = path.join(workDir, 'base');
+        outsideDir = path.join(workDir, 'outside');
+        fs.mkdirSync(path.join(baseDir, 'docs'), { recursive: true });
+        fs.mkdirSync(outsideDir);
+        fs.writeFileSync(path.join(baseDir, 'docs', 'report.txt'), 'report');
+        fs.writeFileSync(path.join(outsideDir, 'secret.txt'), 'secret');
+        fs.symlinkSync(path.join(baseDir, 'docs'), path.join(baseDir, 'inner'));
+        fs.symlinkSync(outsideDir, path.join(baseDir, 'outer'));
+        fs.symlinkSync(path.join(baseDir, 'missing'), path.join(baseDir, 'dangling'));
+    });
+
+    after(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    test('accepts relative paths and normalizes them', () => {
+        assert.equal(resolveSafePath(baseDir, 'docs/report.txt'), path.join('docs', 'report.txt'));
+        assert.equal(resolveSafePath(baseDir, './docs//report.txt'), path.join('docs', 'report.txt'));
+        assert.equal(resolveSafePath(baseDir, 'docs/'), 'docs');
+        assert.equal(resolveSafePath(baseDir, 'docs/new-folder/file.txt'), path.join('docs', 'new-folder', 'file.txt'));
+    });
+
+    test('rejects values that are not strings', () => {
+        for (const input of [undefined, null, 42, ['docs'], { path: 'docs' }]) {
+            assert.equal(resolveSafePath(baseDir, input), null);
+        }
+    });
+
+    test('rejects ".." segments', () => {
+        for (const input of ['..', '../outside', 'docs/../../outside', 'docs/..', '..\\outside', 'docs\\..\\..']) {
+            assert.equal(resolveSafePath(baseDir, input), null, input);
+        }
+    });
+
+    test('rejects ".." once URL-decoded, and keeps encoded names literal', () => {
+        // Express hands decoded query and body values to the controllers
+        for (const encoded of ['%2e%2e', '%2e%2e%2foutside', '..%2Foutside', 'docs%2F%2E%2E%2F%2E%2E']) {
+            assert.equal(resolveSafePath(baseDir, decodeURIComponent(encoded)), null, encoded);
+        }
+        // Without decoding the value is just an odd file name inside baseDir
+        assert.equal(resolveSafePath(baseDir, '%2e%2e%2foutside'), '%2e%2e%2foutside');
+    });
+
+    test('rejects absolute paths', () => {
+        const inputs = ['/etc/passwd', path.join(outsideDir, 'secret.txt'), baseDir, 'C:\\Windows', 'c:relative', '\\\\server\\share'];
+        for (const input of inputs) {
+            assert.equal(resolveSafePath(baseDir, input), null, input);
+        }
+    });
+
+    test('rejects NUL bytes', () => {
+        assert.equal(resolveSafePath(baseDir, 'docs/report.txt\0.png'), null);
+        assert.equal(resolveSafePath(baseDir, '\0'), null);
+    });
+
+    test('rejects symlinks leading out of baseDir', () => {
+        assert.equal(resolveSafePath(baseDir, 'outer'), null);
+        assert.equal(resolveSafePath(baseDir, 'outer/secret.txt'), null);
+        // Paths about to be created below an escaping link count as well
+        assert.equal(resolveSafePath(baseDir, 'outer/new/file.txt'), null);
+        assert.equal(resolveSafePath(baseDir, 'dangling'), null);
+    });
+
+    test('skips the symlink check with checkSymlinks: false', () => {
+        assert.equal(resolveSafePath(baseDir, 'outer/secret.txt', { checkSymlinks: false }), path.join('outer', 'secret.txt'));
+        assert.equal(resolveSafePath(baseDir, '../outside', { checkSymlinks: false }), null);
+    });
+
+    test('accepts symlinks that stay inside baseDir', () => {
+        assert.equal(resolveSafePath(baseDir, 'inner/report.txt'), path.join('inner', 'report.txt'));
+    });
+
+    test('only accepts the base folder itself with allowRoot', () => {
+        for (const input of ['', '.', './']) {
+            assert.equal(resolveSafePath(baseDir, input), null, JSON.stringify(input));
+            assert.equal(resolveSafePath(baseDir, input, { allowRoot: true }), '', JSON.stringify(input));
+        }
+        assert.equal(resolveSafePath(baseDir, '..', { allowRoot: true }), null);
+        assert.equal(resolveSafePath(baseDir, '/', { allowRoot: true }), null);
+        assert.equal(resolveSafePath(baseDir, 'docs', { allowRoot: true }), 'docs');
+    });
+
+    test('works for a base folder that does not exist on disk', () => {
+        const remoteBase = path.join(workDir, 'not-created');
+        assert.equal(resolveSafePath(remoteBase, 'a/b.txt'), path.join('a', 'b.txt'));
+        assert.equal(resolveSafePath(remoteBase, '../base'), null);
+    });
+});
+
+describe('safeFileName', () => {
+    test('accepts plain names', () => {
+        for (const name of ['report.txt', '.hidden', 'name with spaces', 'ünïcødé.md', '..dots..']) {
+            assert.equal(safeFileName(name), name);
+        }
+    });
+
+    test('rejects anything that could act as a path', () => {
+        for (const name of ['', '.', '..', 'a/b', 'a\\b', '../x', '/abs', 'x\0y', undefined, null, 7]) {
+            assert.equal(safeFileName(name), null, String(name));
+        }
+    });
+
+    test('rejects names longer than 255 bytes', () => {
+        assert.equal(safeFileName('a'.repeat(255)), 'a'.repeat(255));
+        assert.equal(safeFileName('a'.repeat(256)), null);
+        // Multi-byte characters count by their encoded length
+        assert.equal(safeFileName('é'.repeat(128)), null);
+    });
+});
@@ -0,0 +1,91 @@
+// utils/safePath.ts
+
+import fs from 'fs';
+import path from 'path';
+
+// Longest file name most file systems accept, in bytes
+const MAX_FILE_NAME_BYTES = 255;
+
+const isInside = (baseDir: string, fullPath: string) =>
+    fullPath === baseDir || fullPath.startsWith(baseDir + path.sep);
+
+// Whether an existing part of the path is a symlink pointing out of baseDir.
+// Checks the deepest part that exists, so paths about to be created are covered too.
+const escapesThroughSymlink = (baseDir: string, fullPath: string) => {
+    let realBase: string;
+    try {
+        realBase = fs.realpathSync(baseDir);
+    } catch {
+        return false; // Nothing on local disk (e.g. an S3 area), so no symlinks either
+    }
+
+    let current = fullPath;
+    while (current !== baseDir) {
+        try {
+            fs.lstatSync(current);
+            break;
+        } catch {
+            current = path.dirname(current);
+        }
+    }
+
+    try {
+        return !isInside(realBase, fs.realpathSync(current));
+    } catch {
+        return true; // Dangling symlink
+    }
+};
+
+// Resolve a user supplied path against baseDir and return it relative to baseDir,
+// or null when it is not safe: not a string, NUL bytes, absolute (POSIX or Windows),
+// ".." segments, or a symlink leading out of baseDir. The base folder itself ('')
+// is only accepted with allowRoot. Areas kept by a remote driver have no symlinks,
+// checkSymlinks: false keeps their paths from being looked up on local disk.
+export const resolveSafePath = (
+    baseDir: string,
+    inputPath: unknown,
+    options: { allowRoot?: boolean; checkSymlinks?: boolean } = {}
+): string | null => {
+    if (typeof inputPath !== 'string' || inputPath.includes('\0')) {
+        return null;
+    }
+    if (path.isAbsolute(inputPath) || path.win32.isAbsolute(inputPath) || /^[a-zA-Z]:/.test(inputPath)) {
+        return null;
+    }
+    if (inputPath.split(/[\\/]/).includes('..')) {
+        return null;
+    }
+
+    const normalized = path.normalize(inputPath).replace(/^(\.[\\/])+/, '').replace(/[\\/]+$/, '');
+    const relativePath = normalized === '.' ? '' : normalized;
+    if (!relativePath && !options.allowRoot) {
+        return null;
+    }
+
+    const resolvedBase = path.resolve(baseDir);
+    const fullPath = path.join(resolvedBase, relativePath);
+    if (!isInside(resolvedBase, fullPath)) {
+        return null;
+    }
+    if (options.checkSymlinks !== false && escapesThroughSymlink(resolvedBase, fullPath)) {
+        return null;
+    }
+
+    return relativePath;
+};
+
+// A single file or folder name, as sent by clients for uploads and renames.
+// Returns null for anything that could act as a path.
+export const safeFileName = (name: unknown): string | null => {
+    if (typeof name !== 'string' || name.includes('\0') || /[\\/]/.test(name)) {
+        return null;
+    }
+    if (name === '' || name === '.' || name === '..' || Buffer.byteLength(name) > MAX_FILE_NAME_BYTES) {
+        return null;
+    }
+    return name;
+};
+
+// Error for multer callbacks, so upload routes can answer 400 instead of 500
+export const invalidFileNameError = (name: string) =>
+    Object.assign(new Error(`Invalid file name: ${name}`), { status: 400 });
@@ -0,0 +1,108 @@
+// utils/shareAnalytics.ts
+
+import { Request, Response } from 'express';
+import ShareAccess, { IShareAccess } from '../models/ShareAccess';
+import SharedItem from '../models/SharedItem';
+import SharedFile from '../models/SharedFile';
+
+type ShareHit = Pick<IShareAccess, 'linkType' | 'code' | 'action'> & { filePath?: string };
+
+// Whether the link a hit is for exists, hits on made-up codes are not recorded
+const linkExists = async ({ linkType, code }: ShareHit) => {
+    if (typeof code !== 'string') {
+        return false;
+    }
+    const found = linkType === 'item'
+        ? await SharedItem.exists({ code })
+        : await SharedFile.exists({ token: code });
+    return !!found;
+};
+
+// Record a share link hit once the response is done. Handlers set `bytes`
+// on the returned object when they know how much they are sending.
+export const trackShareAccess = (req: Request, res: Response, hit: ShareHit) => {
+    const served = { bytes: 0 };
+
+    res.on('close', async () => {
+        try {
+            if (!(await linkExists(hit))) {
+                return;
+            }
+            await ShareAccess.create({
+                ...hit,
+                bytes: served.bytes,
+                statusCode: res.statusCode,
+                ip: req.ip,
+                userAgent: req.get('User-Agent'),
+            });
+        } catch (error) {
+            console.error('Error recording share access:', error);
+        }
+    });
+
+    return served;
+};
+
+const DOWNLOAD_ACTIONS = ['download', 'download-all'];
+
+// Totals, unique visitors (by IP) and a per-day timeline for one link
+export const buildShareStats = async (linkType: IShareAccess['linkType'], code: string) => {
+    const match = { linkType, code };
+    const isDownload = { $cond: [{ $in: ['$action', DOWNLOAD_ACTIONS] }, 1, 0] };
+
+    const [totals] = await ShareAccess.aggregate([
+        { $match: match },
+        {
+            $group: {
+                _id: null,
+                hits: { $sum: 1 },
+                downloads: { $sum: isDownload },
+                bytes: { $sum: '$bytes' },
+                visitors: { $addToSet: '$ip' },
+                firstAccessAt: { $min: '$timestamp' },
+                lastAccessAt: { $max: '$timestamp' },
+            },
+        },
+    ]);
+
+    const timeline = await ShareAccess.aggregate([
+        { $match: match },
+        {
+            $group: {
+                _id: { $dateToString: { format: '%Y-%m-%d', date: '$timestamp' } },
+                hits: { $sum: 1 },
+                downloads: { $sum: isDownload },
+                bytes: { $sum: '$bytes' },
+                visitors: { $addToSet: '$ip' },
+            },
+        },
+        { $sort: { _id: 1 } },
+    ]);
+
+    return {
+        totals: {
+            hits: totals?.hits || 0,
+            downloads: totals?.downloads || 0,
+            bytes: totals?.bytes || 0,
+            uniqueVisitors: totals?.visitors.length || 0,
+            firstAccessAt: totals?.firstAccessAt || null,
+            lastAccessAt: totals?.lastAccessAt || null,
+        },
+        timeline: timeline.map((day) => ({
+            date: day._id,
+            hits: day.hits,
+            downloads: day.downloads,
+            bytes: day.bytes,
+            uniqueVisitors: day.visitors.length,
+        })),
+    };
+};
+
+// Last access time per code, for link listings
+export const getLastAccessTimes = async (linkType: IShareAccess['linkType'], codes: string[]) => {
+    const rows = await ShareAccess.aggregate([
+        { $match: { linkType, code: { $in: codes } } },
+        { $group: { _id: '$code', lastAccessAt: { $max: '$timestamp' } } },
+    ]);
+    return new Map<string, Date>(rows.map((row) => [row._id, row.lastAccessAt]));
+};
@@ -0,0 +1,136 @@
+// utils/storageUsage.ts
+
+import mongoose from 'mongoose';
+import FileRecord, { IFileRecord } from '../models/FileRecord';
+import { IUser } from '../models/User';
+import { STORAGE_QUOTAS } from '../config/config';
+import { acquireBlob, releaseBlob } from './blobStore';
+
+type Area = IFileRecord['area'];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches the path itself and everything below it
+const pathPrefix = (itemPath: string) => new RegExp(`^${escapeRegExp(itemPath)}(/|$)`);
+
+// Remember who created a file and how big it is (and which blob holds it when deduplicated,
+// and its verified checksum when the uploader sent one)
+export const recordFile = async (
+    area: Area,
+    filePath: string,
+    owner: mongoose.Types.ObjectId,
+    size: number,
+    hash?: string,
+    checksum?: string
+) => {
+    const record: Record<string, any> = { area, path: filePath, owner, size, createdAt: new Date() };
+    const unset: Record<string, 1> = {};
+    if (hash) {
+        record.hash = hash;
+    } else {
+        unset.hash = 1;
+    }
+    if (checksum) {
+        record.checksum = checksum;
+    } else {
+        unset.checksum = 1;
+    }
+    const previous = await FileRecord.findOneAndUpdate(
+        { area, path: filePath },
+        Object.keys(unset).length > 0 ? { ...record, $unset: unset } : record,
+        { upsert: true }
+    ).lean();
+
+    if (hash) {
+        await acquireBlob(hash, size);
+    }
+    if (previous?.hash) {
+        await releaseBlob(previous.hash);
+    }
+};
+
+// Drop the blob references held by the given records
+const releaseRecords = async (records: { hash?: string }[]) => {
+    for (const record of records) {
+        if (record.hash) {
+            await releaseBlob(record.hash);
+        }
+    }
+};
+
+// Follow a rename/move (also into and out of .trash and .versions)
+export const moveFileRecords = async (area: Area, oldPath: string, newPath: string) => {
+    const records = await FileRecord.find({ area, path: pathPrefix(oldPath) }).select('path').lean();
+    if (records.length === 0) {
+        return;
+    }
+
+    const targets = records.map((record) => newPath + record.path.slice(oldPath.length));
+
+    // Anything that was overwritten at the destination is gone
+    const overwritten = await FileRecord.find({ area, path: { $in: targets } }).select('hash').lean();
+    await FileRecord.deleteMany({ area, path: { $in: targets } });
+    await releaseRecords(overwritten);
+    await FileRecord.bulkWrite(records.map((record, i) => ({
+        updateOne: { filter: { _id: record._id }, update: { path: targets[i] } },
+    })));
+};
+
+// Forget a file or a whole folder
+export const removeFileRecords = async (area: Area, itemPath: string) => {
+    const records = await FileRecord.find({ area, path: pathPrefix(itemPath) }).select('hash').lean();
+    await FileRecord.deleteMany({ area, path: pathPrefix(itemPath) });
+    await releaseRecords(records);
+};
+
+// Content hash of a recorded file, if it lives in the blob store
+export const getFileHash = async (area: Area, filePath: string) => {
+    const record = await FileRecord.findOne({ area, path: filePath }).select('hash').lean();
+    return record?.hash;
+};
+
+// SHA-256 of a recorded file, from its upload checksum or its blob, for the Digest header
+export const getFileChecksum = async (area: Area, filePath: string) => {
+    const record = await FileRecord.findOne({ area, path: filePath }).select('hash checksum').lean();
+    return record?.checksum || record?.hash;
+};
+
+// Quota in bytes for a user (0 = unlimited)
+export const getUserQuota = (user: IUser): number => {
+    if (typeof user.storageQuota === 'number') {
+        return user.storageQuota;
+    }
+    return STORAGE_QUOTAS[user.role] || 0;
+};
+
+// Bytes owned by a user, split into live files, versions, trash and the share area
+export const getUserUsage = async (userId: mongoose.Types.ObjectId) => {
+    const records = await FileRecord.find({ owner: userId }).select('area path size').lean();
+    const usage = { live: 0, versions: 0, trash: 0, share: 0, total: 0 };
+
+    for (const record of records) {
+        if (record.area === 'share') {
+            usage.share += record.size;
+        } else if (record.path.startsWith('.versions/')) {
+            usage.versions += record.size;
+        } else if (record.path.startsWith('.trash/')) {
+            usage.trash += record.size;
+        } else {
+            usage.live += record.size;
+        }
+        usage.total += record.size;
+    }
+
+    return usage;
+};
+
+// Would storing `incomingBytes` more push the user over their quota?
+export const checkQuota = async (user: IUser, incomingBytes: number) => {
+    const quota = getUserQuota(user);
+    const { total: used } = await getUserUsage(user._id as mongoose.Types.ObjectId);
+    return {
+        allowed: quota === 0 || used + incomingBytes <= quota,
+        quota,
+        used,
+    };
+};
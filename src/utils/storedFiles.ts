@@ -0,0 +1,123 @@
+// utils/storedFiles.ts
+
+import { Response } from 'express';
+import path from 'path';
+import mime from 'mime-types';
+import { Readable } from 'stream';
+import { promisify } from 'util';
+import { Archiver } from 'archiver';
+import { StorageDriver } from '../drivers';
+
+const pipeline = promisify(require('stream').pipeline);
+
+// Digest header (RFC 3230) for a hex SHA-256
+export const digestHeader = (sha256: string) => `sha-256=${Buffer.from(sha256, 'hex').toString('base64')}`;
+
+// Stream a stored file as the response, as an attachment when `download` is set.
+// `sha256` is sent as the Digest header so clients can check what they received.
+export const sendStoredFile = async (
+    res: Response,
+    driver: StorageDriver,
+    itemPath: string,
+    options: { download?: boolean; fileName?: string; sha256?: string } = {}
+) => {
+    const stats = await driver.stat(itemPath);
+    if (!stats || !stats.isFile) {
+        return false;
+    }
+
+    const fileName = options.fileName || path.basename(itemPath);
+    res.setHeader('Content-Type', mime.lookup(fileName) || 'application/octet-stream');
+    res.setHeader('Content-Length', stats.size);
+    res.setHeader('Last-Modified', stats.modifiedAt!.toUTCString());
+    if (options.sha256) {
+        res.setHeader('Digest', digestHeader(options.sha256));
+    }
+    if (options.download) {
+        res.attachment(fileName);
+    }
+
+    await pipeline(await driver.createReadStream(itemPath), res);
+    return true;
+};
+
+// Read a stored file into memory, or only its first `maxBytes`
+export const readStoredFile = async (driver: StorageDriver, itemPath: string, maxBytes?: number) => {
+    const range = maxBytes ? { start: 0, end: maxBytes - 1 } : undefined;
+    const chunks: Buffer[] = [];
+    for await (const chunk of await driver.createReadStream(itemPath, range)) {
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+};
+
+// Add an entry to the archive and wait until it is written, so only one
+// file is read from the driver at a time
+const appendEntry = (archive: Archiver, source: Readable | string, name: string, date: Date | null) =>
+    new Promise<void>((resolve, reject) => {
+        const onError = (error: Error) => {
+            archive.off('entry', onEntry);
+            reject(error);
+        };
+        const onEntry = () => {
+            archive.off('error', onError);
+            resolve();
+        };
+        archive.once('entry', onEntry);
+        archive.once('error', onError);
+        archive.append(source, { name, date: date ?? undefined });
+    });
+
+// Recursively add a stored file or folder to a zip under `entryName`.
+// With `onSkip`, files and folders that can't be read are reported and left out instead of failing the archive.
+// Children `include` returns false for are left out without a trace.
+export const addToArchive = async (
+    archive: Archiver,
+    driver: StorageDriver,
+    itemPath: string,
+    entryName: string,
+    onSkip?: (itemPath: string, error: Error) => void,
+    include?: (itemPath: string) => boolean
+) => {
+    // Run a read, skipping the entry on error when the caller asked for it
+    const read = async <T>(operation: () => Promise<T>): Promise<T | undefined> => {
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (!onSkip) {
+                throw error;
+            }
+            onSkip(itemPath, error);
+            return undefined;
+        }
+    };
+
+    const stats = await driver.stat(itemPath);
+    if (!stats) {
+        return false;
+    }
+
+    if (stats.isFile) {
+        const source = await read(() => driver.createReadStream(itemPath));
+        if (!source) {
+            return false;
+        }
+        await appendEntry(archive, source, entryName, stats.modifiedAt);
+        return true;
+    }
+
+    const children = await read(() => driver.list(itemPath));
+    if (!children) {
+        return false;
+    }
+    if (children.length === 0) {
+        await appendEntry(archive, '', `${entryName}/`, stats.modifiedAt); // Keep empty folders
+    }
+    for (const child of children) {
+        if (include && !include(child.path)) {
+            continue;
+        }
+        await addToArchive(archive, driver, child.path, path.posix.join(entryName, child.name), onSkip, include);
+    }
+    return true;
+};
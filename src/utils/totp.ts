@@ -0,0 +1,85 @@
+// utils/totp.ts
+
+import crypto from 'crypto';
+
+// RFC 6238 time-based one-time passwords with the parameters authenticator apps expect:
+// HMAC-SHA1, 6 digits, 30 second steps
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer) => {
+    let bits = '';
+    for (const byte of buffer) {
+        bits += byte.toString(2).padStart(8, '0');
+    }
+    let encoded = '';
+    for (let i = 0; i < bits.length; i += 5) {
+        encoded += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+    }
+    return encoded;
+};
+
+const base32Decode = (text: string) => {
+    let bits = '';
+    for (const char of text.replace(/=+$/, '').toUpperCase()) {
+        const value = BASE32_ALPHABET.indexOf(char);
+        if (value === -1) {
+            throw new Error('Invalid base32 secret');
+        }
+        bits += value.toString(2).padStart(5, '0');
+    }
+    const bytes = [];
+    for (let i = 0; i + 8 <= bits.length; i += 8) {
+        bytes.push(parseInt(bits.slice(i, i + 8), 2));
+    }
+    return Buffer.from(bytes);
+};
+
+// RFC 4226 HOTP value for one counter
+const hotp = (key: Buffer, counter: number) => {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+    const digest = crypto.createHmac('sha1', key).update(message).digest();
+    const offset = digest[digest.length - 1] & 0x0f;
+    const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+    return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+const getTimeStep = (time: number) => Math.floor(time / 1000 / STEP_SECONDS);
+
+// 160-bit secret, base32 encoded as authenticator apps take it
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+export const generateTotp = (secret: string, time = Date.now()) => hotp(base32Decode(secret), getTimeStep(time));
+
+// Time step a code was generated for, or null when it is wrong. One step of clock drift is accepted
+// either way, steps up to `lastUsedStep` are refused so a code that was used can't be replayed.
+export const verifyTotp = (secret: string, code: unknown, lastUsedStep = -1, time = Date.now()) => {
+    const text = String(code ?? '').replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${DIGITS}}$`).test(text)) {
+        return null;
+    }
+
+    const key = base32Decode(secret);
+    const step = getTimeStep(time);
+    for (const candidate of [step - 1, step, step + 1]) {
+        if (candidate > lastUsedStep && crypto.timingSafeEqual(Buffer.from(hotp(key, candidate)), Buffer.from(text))) {
+            return candidate;
+        }
+    }
+    return null;
+};
+
+// otpauth:// URI for QR codes, see https://github.com/google/google-authenticator/wiki/Key-Uri-Format
+export const getTotpUri = (secret: string, accountName: string, issuer: string) => {
+    const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: String(DIGITS),
+        period: String(STEP_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params}`;
+};